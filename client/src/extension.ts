@@ -2,8 +2,8 @@
 
 import * as path from 'path';
 
-import { workspace, Disposable, ExtensionContext } from 'vscode';
-import { LanguageClient, LanguageClientOptions, SettingMonitor, ServerOptions, TransportKind } from 'vscode-languageclient';
+import { workspace, commands, Disposable, ExtensionContext } from 'vscode';
+import { LanguageClient, LanguageClientOptions, SettingMonitor, ServerOptions, TransportKind, Position, Location } from 'vscode-languageclient/node';
 
 export function activate(context: ExtensionContext) {
 	let serverModule = context.asAbsolutePath(path.join('server', 'server.js'));
@@ -14,13 +14,21 @@ export function activate(context: ExtensionContext) {
 	}
 
 	let clientOptions: LanguageClientOptions = {
-		documentSelector: ['asp','vbs', 'vb', 'vbscript', 'vba'],
+		// HTML Applications are opened as HTML - the server checks their VBScript blocks
+		documentSelector: ['asp','vbs', 'vb', 'vbscript', 'vba', 'wsf', { scheme: 'file', pattern: '**/*.hta' }],
 		synchronize: {
 			configurationSection: 'vbsLanguageServer',
-			fileEvents: workspace.createFileSystemWatcher('**/.clientrc')
+			fileEvents: workspace.createFileSystemWatcher('**/*.{vbs,vba,asp,inc,wsf,hta}')
 		}
 	}
 
-	let disposable = new LanguageClient('vbsLanguageServer', 'VBScript Language Server', serverOptions, clientOptions).start();
+	let client = new LanguageClient('vbsLanguageServer', 'VBScript Language Server', serverOptions, clientOptions);
+	let disposable = client.start();
 	context.subscriptions.push(disposable);
+
+	// the reference count lenses of the server pass protocol types - VS Code needs its own ones
+	context.subscriptions.push(commands.registerCommand('vbsLanguageServer.showReferences', (uri: string, position: Position, locations: Location[]) => {
+		let converter = client.protocol2CodeConverter;
+		return commands.executeCommand('editor.action.showReferences', converter.asUri(uri), converter.asPosition(position), locations.map(location => converter.asLocation(location)));
+	}));
 }
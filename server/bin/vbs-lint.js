@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+// compiled into the folder "out" of the server package by "npm run build"
+require("../out/VBSLinting/VBSLintCli").Main(process.argv.slice(2)).then(function(exitCode) {
+	process.exitCode = exitCode;
+});
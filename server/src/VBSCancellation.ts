@@ -0,0 +1,13 @@
+import * as ls from 'vscode-languageserver';
+
+// Long running work gives other messages a turn now and then - the client may cancel the request
+// or change the document in the meantime.
+
+// the number of tokens, nodes or names between two turns of the other messages
+export const sliceSize: number = 1000;
+
+// true if the token has been cancelled while the other messages had their turn
+export async function GiveWay(token: ls.CancellationToken): Promise<boolean> {
+	await new Promise(resolve => setImmediate(resolve));
+	return token.isCancellationRequested;
+}
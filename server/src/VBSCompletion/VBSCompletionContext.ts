@@ -0,0 +1,51 @@
+import * as ls from 'vscode-languageserver';
+import * as ast from "../VBSParser/VBSSyntaxTree";
+import { VBSToken, VBSTokenKind, FindLastTokenBefore, ComparePositions, IsKeyword } from "../VBSParser/VBSToken";
+import { VBSCallContext } from "../VBSSymbols/VBSSymbol";
+
+// The start of a line, the statement behind a colon or behind "Then" and "Else" of a single line
+// "If" - the word which is typed does not count, even if it is a keyword like "Else" itself.
+export function IsStatementStart(program: ast.VBSProgram, position: ls.Position): boolean {
+	return IsStatementBoundary(program.tokens, FindTokenBeforeWord(program.tokens, position));
+}
+
+// "Log msg" at the start of a statement, "Call Log(msg)" or an expression - the object in
+// front of a member counts like the member: "Call obj.Log(msg)"
+export function GetCallContext(program: ast.VBSProgram, position: ls.Position): VBSCallContext {
+	let tokens = program.tokens;
+	let index = FindTokenBeforeWord(tokens, position);
+
+	while(index > 0 && tokens[index].IsOperator(".") && IsObjectName(tokens[index - 1]))
+		index -= 2;
+
+	// ".Log msg" inside of "With"
+	if(index > -1 && tokens[index].IsOperator("."))
+		index--;
+
+	if(IsStatementBoundary(tokens, index))
+		return VBSCallContext.Statement;
+
+	return tokens[index].Is("call") ? VBSCallContext.Call : VBSCallContext.Expression;
+}
+
+// -1 at the start of the document
+function FindTokenBeforeWord(tokens: VBSToken[], position: ls.Position): number {
+	let index = FindLastTokenBefore(tokens, position);
+
+	if(index > -1 && tokens[index].kind == VBSTokenKind.Identifier && ComparePositions(tokens[index].range.end, position) == 0)
+		index--;
+
+	return index;
+}
+
+function IsStatementBoundary(tokens: VBSToken[], index: number): boolean {
+	if(index == -1)
+		return true;
+
+	let token = tokens[index];
+	return token.kind == VBSTokenKind.NewLine || token.kind == VBSTokenKind.Colon || token.Is("then") || token.Is("else");
+}
+
+function IsObjectName(token: VBSToken): boolean {
+	return token.kind == VBSTokenKind.Identifier && (!IsKeyword(token.text) || token.Is("me"));
+}
@@ -0,0 +1,108 @@
+import * as ls from 'vscode-languageserver';
+import * as ast from "../VBSParser/VBSSyntaxTree";
+import { IsStatementStart } from "./VBSCompletionContext";
+
+class VBSSnippet {
+	constructor(public label: string, public detail: string, public body: string[]) {
+	}
+}
+
+// the client indents the lines of a snippet like the line it is inserted into
+const snippets: VBSSnippet[] = [
+	new VBSSnippet("If", "If ... Then ... End If", [
+		"If ${1:condition} Then",
+		"\t$0",
+		"End If"
+	]),
+	new VBSSnippet("If Else", "If ... Then ... Else ... End If", [
+		"If ${1:condition} Then",
+		"\t$2",
+		"Else",
+		"\t$0",
+		"End If"
+	]),
+	new VBSSnippet("For", "For ... To ... Next", [
+		"For ${1:i} = ${2:1} To ${3:10}",
+		"\t$0",
+		"Next"
+	]),
+	new VBSSnippet("For Each", "For Each ... In ... Next", [
+		"For Each ${1:item} In ${2:collection}",
+		"\t$0",
+		"Next"
+	]),
+	new VBSSnippet("Do While", "Do While ... Loop", [
+		"Do While ${1:condition}",
+		"\t$0",
+		"Loop"
+	]),
+	new VBSSnippet("Select Case", "Select Case ... End Select", [
+		"Select Case ${1:expression}",
+		"\tCase ${2:value}",
+		"\t\t$3",
+		"\tCase Else",
+		"\t\t$0",
+		"End Select"
+	]),
+	new VBSSnippet("With", "With ... End With", [
+		"With ${1:object}",
+		"\t$0",
+		"End With"
+	]),
+	new VBSSnippet("Sub", "Sub ... End Sub", [
+		"Sub ${1:Name}(${2})",
+		"\t$0",
+		"End Sub"
+	]),
+	new VBSSnippet("Function", "Function ... End Function", [
+		"Function ${1:Name}(${2})",
+		"\t$0",
+		"\t${1:Name} = ${3:result}",
+		"End Function"
+	]),
+	new VBSSnippet("Class", "Class with Class_Initialize and Class_Terminate", [
+		"Class ${1:Name}",
+		"\tPrivate Sub Class_Initialize()",
+		"\t\t$0",
+		"\tEnd Sub",
+		"",
+		"\tPrivate Sub Class_Terminate()",
+		"\tEnd Sub",
+		"End Class"
+	]),
+	new VBSSnippet("Property", "Property Get and Property Let", [
+		"Public Property Get ${1:Name}()",
+		"\t${1:Name} = m${1:Name}",
+		"End Property",
+		"",
+		"Public Property Let ${1:Name}(${2:value})",
+		"\tm${1:Name} = ${2:value}",
+		"End Property"
+	]),
+	new VBSSnippet("On Error Resume Next", "On Error Resume Next ... If Err.Number <> 0", [
+		"On Error Resume Next",
+		"$1",
+		"If Err.Number <> 0 Then",
+		"\t${2:WScript.Echo Err.Description}",
+		"\tErr.Clear",
+		"End If",
+		"On Error GoTo 0",
+		"$0"
+	])
+];
+
+// the block statements - only offered where a statement starts
+export function GetSnippetCompletionItems(program: ast.VBSProgram, position: ls.Position): ls.CompletionItem[] {
+	if(!IsStatementStart(program, position))
+		return [];
+
+	return snippets.map(function(snippet) {
+		let item = ls.CompletionItem.create(snippet.label);
+		item.kind = ls.CompletionItemKind.Snippet;
+		item.detail = snippet.detail;
+		item.insertText = snippet.body.join("\n");
+		item.insertTextFormat = ls.InsertTextFormat.Snippet;
+		item.documentation = { kind: ls.MarkupKind.Markdown, value: "```vbs\n" + snippet.body.join("\n").replace(/\$\{\d+:([^}]*)\}/g, "$1").replace(/\$\{?\d+\}?/g, "") + "\n```" };
+		return item;
+	});
+}
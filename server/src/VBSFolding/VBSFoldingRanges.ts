@@ -0,0 +1,108 @@
+import * as ls from 'vscode-languageserver';
+import * as ast from "../VBSParser/VBSSyntaxTree";
+import { VBSToken, VBSTokenKind } from "../VBSParser/VBSToken";
+
+const regionStart = /^'\s*#region\b/i;
+const regionEnd = /^'\s*#endregion\b/i;
+
+// Folds the blocks of the syntax tree, runs of comment lines and "' #region" ... "' #endregion".
+// The line of "End ..." stays visible, so the end of a folded block can still be seen.
+export function GetFoldingRanges(program: ast.VBSProgram): ls.FoldingRange[] {
+	let ranges: ls.FoldingRange[] = [];
+
+	ast.ForEachNode(program, node => {
+		if(node instanceof ast.VBSIfStatement) {
+			if(!node.isSingleLine)
+				AddIfRanges(ranges, node);
+		} else if(node instanceof ast.VBSSelectStatement) {
+			AddSelectRanges(ranges, node);
+		} else if(node instanceof ast.VBSBlockStatement && node.endRange != null) {
+			AddRange(ranges, node.range.start.line, node.endRange.start.line - 1);
+		}
+	});
+
+	AddCommentRanges(ranges, program.tokens);
+
+	return ranges.sort(function(a, b) { return a.startLine - b.startLine; });
+}
+
+// "If", every "ElseIf" and "Else" fold on their own
+function AddIfRanges(ranges: ls.FoldingRange[], node: ast.VBSIfStatement) {
+	if(node.endRange == null)
+		return;
+
+	let starts: number[] = [ node.range.start.line ].concat(node.elseIfs.map(function(clause) { return clause.keywordRange.start.line; }));
+
+	if(node.elseRange != null)
+		starts.push(node.elseRange.start.line);
+
+	starts.push(node.endRange.start.line);
+
+	for (let i = 0; i < starts.length - 1; i++)
+		AddRange(ranges, starts[i], starts[i + 1] - 1);
+}
+
+function AddSelectRanges(ranges: ls.FoldingRange[], node: ast.VBSSelectStatement) {
+	if(node.endRange == null)
+		return;
+
+	AddRange(ranges, node.range.start.line, node.endRange.start.line - 1);
+
+	for (let i = 0; i < node.cases.length; i++) {
+		let end = i + 1 < node.cases.length ? node.cases[i + 1].keywordRange.start.line : node.endRange.start.line;
+		AddRange(ranges, node.cases[i].keywordRange.start.line, end - 1);
+	}
+}
+
+function AddCommentRanges(ranges: ls.FoldingRange[], tokens: VBSToken[]) {
+	let codeLines: { [line: number]: boolean; } = {};
+
+	tokens.forEach(token => {
+		if(token.kind != VBSTokenKind.Comment && token.kind != VBSTokenKind.NewLine && token.kind != VBSTokenKind.EndOfFile)
+			codeLines[token.range.start.line] = true;
+	});
+
+	// comments behind code ("x = 1 ' one") do not belong to a run of comment lines
+	let lineComments = tokens.filter(function(token) {
+		return token.kind == VBSTokenKind.Comment && !codeLines[token.range.start.line];
+	});
+
+	let regionStarts: number[] = [];
+	let runStart = -1;
+	let runEnd = -1;
+
+	lineComments.forEach(comment => {
+		let line = comment.range.start.line;
+		let isRegionStart = regionStart.test(comment.text);
+		let isRegionEnd = regionEnd.test(comment.text);
+
+		// the markers of a region are no part of a comment run
+		if(runStart > -1 && (line != runEnd + 1 || isRegionStart || isRegionEnd)) {
+			AddRange(ranges, runStart, runEnd, ls.FoldingRangeKind.Comment);
+			runStart = -1;
+		}
+
+		if(isRegionStart) {
+			regionStarts.push(line);
+		} else if(isRegionEnd) {
+			if(regionStarts.length > 0)
+				AddRange(ranges, regionStarts.pop(), line, ls.FoldingRangeKind.Region);
+		} else {
+			if(runStart == -1)
+				runStart = line;
+
+			runEnd = line;
+		}
+	});
+
+	if(runStart > -1)
+		AddRange(ranges, runStart, runEnd, ls.FoldingRangeKind.Comment);
+}
+
+function AddRange(ranges: ls.FoldingRange[], startLine: number, endLine: number, kind: string = undefined) {
+	// a single line can not be folded
+	if(endLine <= startLine)
+		return;
+
+	ranges.push(ls.FoldingRange.create(startLine, endLine, undefined, undefined, kind));
+}
@@ -0,0 +1,324 @@
+import * as ls from 'vscode-languageserver';
+import { VBSToken, VBSTokenKind, IsKeyword } from "../VBSParser/VBSToken";
+import { VBSLexer } from "../VBSParser/VBSLexer";
+
+export class VBSFormattingOptions {
+	public indentSize: number = 4;
+	public insertSpaces: boolean = false;
+}
+
+// the spelling of keywords after formatting - "end if" becomes "End If"
+const keywordCasing: string[] = [
+	"And", "As", "ByRef", "ByVal", "Call", "Case", "Class", "Const", "Dim", "Do", "Each", "Else",
+	"ElseIf", "Empty", "End", "Eqv", "Erase", "Exit", "False", "For", "Function", "Get", "GoTo", "If",
+	"Imp", "In", "Is", "Let", "Loop", "Me", "Mod", "New", "Next", "Not", "Nothing", "Null", "On",
+	"Option", "Or", "Preserve", "Private", "Property", "Public", "ReDim", "Resume", "Select", "Set",
+	"Stop", "Sub", "Then", "To", "True", "Until", "Wend", "While", "With", "Xor"
+];
+
+// words which are only keywords behind certain keywords ("On Error", "Option Explicit") - "" is the start of a statement
+const contextKeywords: { [lowerName: string]: string[]; } = {
+	"error": [ "on" ],
+	"explicit": [ "option" ],
+	"default": [ "public" ],
+	"property": [ "", "public", "private", "default", "end", "exit" ]
+};
+
+// keywords which are values and no operators - "-" behind them is a binary operator
+const valueKeywords: string[] = [ "me", "true", "false", "nothing", "empty", "null" ];
+
+// how a statement changes the indentation of the lines in front of and behind it
+class IndentChange {
+	public before: number = 0;
+	public after: number = 0;
+	// the rest of the line belongs to a single line "If"
+	public endsLine: boolean = false;
+}
+
+// a line as the lexer sees it: physical lines joined by "_" are one line
+class LogicalLine {
+	public tokens: VBSToken[] = [];
+	public firstLine: number = 0;
+	public lastLine: number = 0;
+}
+
+// Re-indents the block structures and normalizes the casing of keywords and the spaces between
+// tokens. Comments, line continuations and multiple statements on one line ("a = 1 : b = 2") stay.
+export function FormatDocument(text: string, options: VBSFormattingOptions, range: ls.Range = null): ls.TextEdit[] {
+	let lines = text.split(/\r?\n/);
+	let tokens = new VBSLexer(text).Tokenize();
+	let indentUnit = options.insertSpaces ? Repeat(" ", options.indentSize) : "\t";
+	let edits: ls.TextEdit[] = [];
+	let level = 0;
+
+	GetLogicalLines(tokens).forEach(logicalLine => {
+		let statements = SplitStatements(logicalLine.tokens);
+		let lineLevel: number = null;
+
+		for (let i = 0; i < statements.length; i++) {
+			let change = GetIndentChange(statements[i]);
+			level = Math.max(0, level - change.before);
+
+			if(lineLevel == null)
+				lineLevel = level;
+
+			level += change.after;
+
+			if(change.endsLine)
+				break;
+		}
+
+		if(lineLevel == null)
+			lineLevel = level;
+
+		for (let line = logicalLine.firstLine; line <= logicalLine.lastLine; line++) {
+			if(range != null && (line < range.start.line || line > range.end.line))
+				continue;
+
+			// continued lines are indented once more than their statement
+			let indent = Repeat(indentUnit, line == logicalLine.firstLine ? lineLevel : lineLevel + 1);
+			let formatted = FormatLine(lines[line], logicalLine, line, indent);
+
+			if(formatted != lines[line])
+				edits.push(ls.TextEdit.replace(ls.Range.create(line, 0, line, lines[line].length), formatted));
+		}
+	});
+
+	return edits;
+}
+
+function GetLogicalLines(tokens: VBSToken[]): LogicalLine[] {
+	let logicalLines: LogicalLine[] = [];
+	let current = new LogicalLine();
+
+	tokens.forEach(token => {
+		if(token.kind == VBSTokenKind.NewLine || token.kind == VBSTokenKind.EndOfFile) {
+			current.lastLine = token.range.start.line;
+			logicalLines.push(current);
+
+			current = new LogicalLine();
+			current.firstLine = token.range.end.line;
+			return;
+		}
+
+		current.tokens.push(token);
+	});
+
+	return logicalLines;
+}
+
+function SplitStatements(tokens: VBSToken[]): VBSToken[][] {
+	let statements: VBSToken[][] = [ [] ];
+
+	tokens.forEach(token => {
+		if(token.kind == VBSTokenKind.Colon)
+			statements.push([]);
+		else if(token.kind != VBSTokenKind.Comment)
+			statements[statements.length - 1].push(token);
+	});
+
+	return statements.filter(function(statement) { return statement.length > 0; });
+}
+
+function GetIndentChange(statement: VBSToken[]): IndentChange {
+	let change = new IndentChange();
+	let index = 0;
+
+	// "Public Default Function" opens a block just like "Function"
+	if(statement[index].Is("public") || statement[index].Is("private"))
+		index++;
+
+	if(index < statement.length && statement[index].Is("default"))
+		index++;
+
+	if(index >= statement.length)
+		return change;
+
+	let keyword = statement[index].kind == VBSTokenKind.Identifier ? statement[index].text.toLowerCase() : "";
+	let next = index + 1 < statement.length ? statement[index + 1] : null;
+
+	switch(keyword) {
+		case "class":
+		case "sub":
+		case "function":
+		case "property":
+		case "for":
+		case "do":
+		case "while":
+		case "with":
+			change.after = 1;
+			break;
+		case "select":
+			// the "Case" clauses are indented once and their statements twice
+			change.after = 2;
+			break;
+		case "if":
+			// "If a Then b" is a statement of its own - the rest of the line is part of it
+			if(statement[statement.length - 1].Is("then"))
+				change.after = 1;
+			else
+				change.endsLine = true;
+			break;
+		case "elseif":
+		case "else":
+		case "case":
+			change.before = 1;
+			change.after = 1;
+			break;
+		case "next":
+		case "loop":
+		case "wend":
+			change.before = 1;
+			break;
+		case "end":
+			if(next != null && next.Is("select"))
+				change.before = 2;
+			else if(next != null && (next.Is("if") || next.Is("sub") || next.Is("function") || next.Is("property") || next.Is("class") || next.Is("with")))
+				change.before = 1;
+			break;
+	}
+
+	return change;
+}
+
+function FormatLine(lineText: string, logicalLine: LogicalLine, line: number, indent: string): string {
+	let tokens = logicalLine.tokens.filter(function(token) { return token.range.start.line == line; });
+
+	if(tokens.length == 0)
+		return lineText.trim() == "" ? "" : indent + lineText.trim();
+
+	// keep what the lexer does not understand
+	let formatted = logicalLine.tokens.some(function(token) { return token.kind == VBSTokenKind.Unknown; })
+		? lineText.trim()
+		: FormatTokens(tokens, logicalLine.tokens, lineText);
+
+	if(line < logicalLine.lastLine)
+		formatted += " _";
+
+	return indent + formatted;
+}
+
+function FormatTokens(tokens: VBSToken[], allTokens: VBSToken[], lineText: string): string {
+	let text = "";
+
+	for (let i = 0; i < tokens.length; i++) {
+		let token = tokens[i];
+		let index = allTokens.indexOf(token);
+		let previous = index > 0 ? allTokens[index - 1] : null;
+
+		if(i > 0) {
+			let gap = lineText.substring(previous.range.end.character, token.range.start.character);
+			text += GetSeparator(allTokens, index, gap);
+		}
+
+		text += GetTokenText(token, previous, allTokens);
+	}
+
+	return text;
+}
+
+function GetTokenText(token: VBSToken, previous: VBSToken, allTokens: VBSToken[]): string {
+	if(token.kind != VBSTokenKind.Identifier || token.text[0] == "[")
+		return token.text;
+
+	// members may have names like "End" or "Set"
+	if(previous != null && previous.IsOperator("."))
+		return token.text;
+
+	let lowerText = token.text.toLowerCase();
+
+	if(contextKeywords[lowerText] != null) {
+		let previousText = previous == null || previous.kind == VBSTokenKind.Colon ? "" : previous.text.toLowerCase();
+
+		if(contextKeywords[lowerText].indexOf(previousText) == -1)
+			return token.text;
+
+		return token.text[0].toUpperCase() + lowerText.substring(1);
+	}
+
+	// "Step" is a keyword of "For" only
+	if(lowerText == "step" && allTokens.length > 0 && allTokens[0].Is("for"))
+		return "Step";
+
+	if(!IsKeyword(lowerText))
+		return token.text;
+
+	for (let i = 0; i < keywordCasing.length; i++) {
+		if(keywordCasing[i].toLowerCase() == lowerText)
+			return keywordCasing[i];
+	}
+
+	return token.text;
+}
+
+// the spaces in front of a token behind another token of the same line - gap is what has been written between them
+function GetSeparator(tokens: VBSToken[], index: number, gap: string): string {
+	let token = tokens[index];
+	let previous = tokens[index - 1];
+	let previousIsUnary = IsUnaryOperator(tokens, index - 1);
+
+	// aligned comments stay where they are
+	if(token.kind == VBSTokenKind.Comment)
+		return gap != "" ? gap : " ";
+
+	if(token.IsOperator(",") || token.IsOperator(")") || previous.IsOperator("("))
+		return "";
+
+	if(previous.IsOperator(","))
+		return " ";
+
+	// "obj.Name" but "With obj" followed by " .Name"
+	if(previous.IsOperator("."))
+		return "";
+
+	if(token.IsOperator("."))
+		return IsValue(tokens, index - 1) && gap == "" ? "" : " ";
+
+	// "Foo (a)" passes "a" by value, "Foo(a)" by reference - the space matters
+	if(token.IsOperator("(")) {
+		if(IsValue(tokens, index - 1))
+			return gap == "" ? "" : " ";
+
+		return previousIsUnary ? "" : " ";
+	}
+
+	if(previousIsUnary)
+		return "";
+
+	if(previous.kind == VBSTokenKind.Operator || token.kind == VBSTokenKind.Operator)
+		return " ";
+
+	return gap != "" ? " " : "";
+}
+
+// names, literals and closing parentheses - an operator behind them is a binary operator
+function IsValue(tokens: VBSToken[], index: number): boolean {
+	let token = tokens[index];
+
+	// members may have names like "End" or "Set"
+	if(token.kind == VBSTokenKind.Identifier && index > 0 && tokens[index - 1].IsOperator("."))
+		return true;
+
+	if(token.kind == VBSTokenKind.Identifier)
+		return !IsKeyword(token.text) || valueKeywords.indexOf(token.text.toLowerCase()) > -1;
+
+	return token.kind == VBSTokenKind.Number || token.kind == VBSTokenKind.String || token.kind == VBSTokenKind.Date || token.IsOperator(")");
+}
+
+// "-1" or "Not -a" - the sign belongs to the value behind it
+function IsUnaryOperator(tokens: VBSToken[], index: number): boolean {
+	if(!tokens[index].IsOperator("-") && !tokens[index].IsOperator("+"))
+		return false;
+
+	// "For i = 10 To 1 Step -1"
+	return index == 0 || !IsValue(tokens, index - 1) || tokens[index - 1].Is("step");
+}
+
+function Repeat(text: string, count: number): string {
+	let result = "";
+
+	for (let i = 0; i < count; i++)
+		result += text;
+
+	return result;
+}
@@ -0,0 +1,316 @@
+import * as ls from 'vscode-languageserver';
+import * as ast from "../VBSParser/VBSSyntaxTree";
+import { VBSTokenKind, IsKeyword } from "../VBSParser/VBSToken";
+import { VBSSymbol } from "../VBSSymbols/VBSSymbol";
+import { VBSMethodSymbol } from "../VBSSymbols/VBSMethodSymbol";
+import { VBSPropertySymbol } from "../VBSSymbols/VBSPropertySymbol";
+import { VBSMemberSymbol } from "../VBSSymbols/VBSMemberSymbol";
+import { VBSVariableSymbol } from "../VBSSymbols/VBSVariableSymbol";
+import { VBSParameterSymbol } from "../VBSSymbols/VBSParameterSymbol";
+import { VBSConstantSymbol } from "../VBSSymbols/VBSConstantSymbol";
+import { VBSSymbolTree, PositionInRange } from "../VBSSymbols/VBSSymbolTree";
+import { VBSSymbolResolver, VBSJobScope } from "../VBSSymbols/VBSSymbolResolver";
+import { GiveWay, sliceSize } from "../VBSCancellation";
+
+// the codes of the diagnostics - "' vbslint-disable-next-line unused-variable" suppresses a rule
+export const checkerRules: string[] = [ "undeclared-variable", "unused-variable", "unused-parameter", "duplicate-declaration", "shadowed-global", "missing-set" ];
+
+const severityNames: { [name: string]: ls.DiagnosticSeverity; } = {
+	"error": ls.DiagnosticSeverity.Error,
+	"warning": ls.DiagnosticSeverity.Warning,
+	"information": ls.DiagnosticSeverity.Information,
+	"hint": ls.DiagnosticSeverity.Hint
+};
+
+const suppressionPattern = /^\s*vbslint-disable-next-line\b(.*)$/i;
+
+export class VBSCheckerOptions {
+	// reports undeclared variables of documents without "Option Explicit" as well
+	public requireDeclaration: boolean = false;
+	// a rule without severity is turned off
+	public severities: { [rule: string]: ls.DiagnosticSeverity; } = {
+		"undeclared-variable": ls.DiagnosticSeverity.Error,
+		"unused-variable": ls.DiagnosticSeverity.Warning,
+		"unused-parameter": ls.DiagnosticSeverity.Hint,
+		"duplicate-declaration": ls.DiagnosticSeverity.Error,
+		"shadowed-global": ls.DiagnosticSeverity.Warning,
+		"missing-set": ls.DiagnosticSeverity.Error
+	};
+
+	// "error", "warning", "information", "hint" or "off" by rule - unknown rules and names are ignored
+	public SetSeverities(severities: { [rule: string]: string; }) {
+		for (let rule in severities) {
+			let name = (severities[rule] || "").toLowerCase();
+
+			if(checkerRules.indexOf(rule) == -1)
+				continue;
+
+			if(name == "off")
+				this.severities[rule] = null;
+			else if(severityNames[name] != null)
+				this.severities[rule] = severityNames[name];
+		}
+	}
+}
+
+// Checks the declarations of a document: undeclared and unused variables, declarations which
+// are repeated in the same scope and locals which hide global names - and objects which are
+// assigned without "Set". The symbols are the ones
+// of the document, the resolver also knows the included files and the host objects. sharedNames
+// are the lower case names used by the files which see the globals of the document - null if
+// any name might be used elsewhere. The checks give way to other messages now and then - null
+// if the token is cancelled in the meantime.
+export async function CheckDocument(resolver: VBSSymbolResolver, symbols: VBSSymbol[], sharedNames: Set<string>, options: VBSCheckerOptions, token: ls.CancellationToken = ls.CancellationToken.None): Promise<ls.Diagnostic[]> {
+	let diagnostics: ls.Diagnostic[] = [];
+	let report = function(range: ls.Range, message: string, rule: string, isUnnecessary: boolean = false) {
+		if(options.severities[rule] == null)
+			return;
+
+		let diagnostic = ls.Diagnostic.create(range, message, options.severities[rule], rule, "vbs");
+
+		if(isUnnecessary)
+			diagnostic.tags = [ ls.DiagnosticTag.Unnecessary ];
+
+		diagnostics.push(diagnostic);
+	};
+
+	if(!await CheckUndeclaredVariables(resolver, options.requireDeclaration, report, token))
+		return null;
+
+	if(!await CheckUnusedSymbols(resolver, symbols, sharedNames, report, token))
+		return null;
+
+	CheckDuplicateDeclarations(resolver.symbolTree, report);
+	CheckShadowedGlobals(resolver, report);
+	CheckMissingSet(resolver.program, report);
+
+	return RemoveSuppressed(diagnostics, resolver.program);
+}
+
+type ReportFunction = (range: ls.Range, message: string, rule: string, isUnnecessary?: boolean) => void;
+
+// the range limits the statements to the ones of a job of a Windows Script File
+export function HasOptionExplicit(program: ast.VBSProgram, range: ls.Range = null): boolean {
+	return program.statements.some(function(statement) {
+		return statement instanceof ast.VBSOptionExplicitStatement && (range == null || PositionInRange(range, statement.range.start));
+	});
+}
+
+// every job of a Windows Script File has its own "Option Explicit" - false if the token is cancelled
+async function CheckUndeclaredVariables(resolver: VBSSymbolResolver, requireDeclaration: boolean, report: ReportFunction, token: ls.CancellationToken): Promise<boolean> {
+	let reDimNames = GetReDimNames(resolver.program);
+	let isChecked = requireDeclaration || HasOptionExplicit(resolver.program);
+	let checkedJobs = resolver.jobs.filter(function(job) {
+		return !job.hasReferences && (requireDeclaration || HasOptionExplicit(resolver.program, job.range));
+	});
+
+	if(!isChecked && checkedJobs.length == 0)
+		return true;
+
+	let identifiers: ast.VBSIdentifierExpression[] = [];
+
+	ast.ForEachNode(resolver.program, node => {
+		if(node instanceof ast.VBSIdentifierExpression && node.name != "")
+			identifiers.push(node);
+	});
+
+	for (let i = 0; i < identifiers.length; i++) {
+		let node = identifiers[i];
+
+		if(i > 0 && i % sliceSize == 0 && await GiveWay(token))
+			return false;
+
+		let job = resolver.GetJobAt(node.range.start);
+
+		if(job != null ? checkedJobs.indexOf(job) == -1 : !isChecked)
+			continue;
+
+		if(resolver.ResolveName(node.name, node.range.start).length > 0)
+			continue;
+
+		// "ReDim" declares the array if there is no "Dim"
+		let procedure = ast.FindAncestor(node, ast.VBSProcedureDeclaration);
+		let lowerName = node.name.toLowerCase();
+
+		if(reDimNames.get(procedure).has(lowerName) || (procedure != null && reDimNames.get(null).has(lowerName)))
+			continue;
+
+		report(node.range, "Variable '" + node.name + "' is not declared!", "undeclared-variable");
+	}
+
+	return true;
+}
+
+// the names of the "ReDim" statements by procedure - null is the global scope
+function GetReDimNames(program: ast.VBSProgram): Map<ast.VBSProcedureDeclaration, Set<string>> {
+	let names = new Map<ast.VBSProcedureDeclaration, Set<string>>();
+	names.set(null, new Set<string>());
+
+	ast.ForEachNode(program, node => {
+		if(node instanceof ast.VBSProcedureDeclaration)
+			names.set(node, new Set<string>());
+
+		if(!(node instanceof ast.VBSReDimStatement))
+			return;
+
+		let procedure = ast.FindAncestor(node, ast.VBSProcedureDeclaration);
+
+		node.declarators.forEach(declarator => {
+			names.get(procedure).add(declarator.name.toLowerCase());
+		});
+	});
+
+	return names;
+}
+
+// Variables of procedures, private class fields and parameters are only visible in the
+// document - global variables only if no other file uses their name. False if the token
+// is cancelled.
+async function CheckUnusedSymbols(resolver: VBSSymbolResolver, symbols: VBSSymbol[], sharedNames: Set<string>, report: ReportFunction, token: ls.CancellationToken): Promise<boolean> {
+	let used = new Set<VBSSymbol>();
+	let tokens = resolver.program.tokens;
+
+	for (let i = 0; i < tokens.length; i++) {
+		if(i > 0 && i % sliceSize == 0 && await GiveWay(token))
+			return false;
+
+		if(tokens[i].kind != VBSTokenKind.Identifier)
+			continue;
+
+		let identifier = resolver.GetIdentifier(i);
+
+		if(!identifier.isMemberAccess && IsKeyword(identifier.token.text))
+			continue;
+
+		// members of objects whose class is unknown count as well
+		resolver.Resolve(identifier).symbols.forEach(symbol => {
+			if(!IsDeclaredAt(symbol, identifier.token.range))
+				used.add(symbol);
+		});
+	}
+
+	symbols.forEach(symbol => {
+		if(used.has(symbol))
+			return;
+
+		if(symbol instanceof VBSParameterSymbol)
+			report(symbol.nameLocation.range, "Parameter '" + symbol.name + "' is never used!", "unused-parameter", true);
+		else if((symbol instanceof VBSVariableSymbol && (resolver.IsLocal(symbol) || IsUnsharedGlobal(resolver, symbol, sharedNames))) || (symbol instanceof VBSMemberSymbol && symbol.visibility.toLowerCase() == "private"))
+			report(symbol.nameLocation.range, "Variable '" + symbol.name + "' is never used!", "unused-variable", true);
+	});
+
+	return true;
+}
+
+function IsUnsharedGlobal(resolver: VBSSymbolResolver, symbol: VBSVariableSymbol, sharedNames: Set<string>): boolean {
+	if(sharedNames == null || sharedNames.has(symbol.name.toLowerCase()))
+		return false;
+
+	let node = resolver.symbolTree.FindNode(symbol);
+	return node != null && node.parent == resolver.symbolTree;
+}
+
+function IsDeclaredAt(symbol: VBSSymbol, range: ls.Range): boolean {
+	if(symbol.isBuiltin || symbol.nameLocation == null)
+		return false;
+
+	let start = symbol.nameLocation.range.start;
+	return start.line == range.start.line && start.character == range.start.character;
+}
+
+// "Dim a" twice in the same scope is the runtime error "Name redefined"
+function CheckDuplicateDeclarations(tree: VBSSymbolTree, report: ReportFunction) {
+	let declared = new Set<string>();
+
+	tree.children.forEach(child => {
+		let symbol = child.data;
+
+		if(symbol instanceof VBSVariableSymbol || symbol instanceof VBSMemberSymbol || symbol instanceof VBSConstantSymbol || symbol instanceof VBSParameterSymbol) {
+			let lowerName = symbol.name.toLowerCase();
+
+			if(declared.has(lowerName))
+				report(symbol.nameLocation.range, "'" + symbol.name + "' is already declared in this scope!", "duplicate-declaration");
+
+			declared.add(lowerName);
+		}
+
+		CheckDuplicateDeclarations(child, report);
+	});
+}
+
+function CheckShadowedGlobals(resolver: VBSSymbolResolver, report: ReportFunction) {
+	let procedures: VBSSymbolTree[] = [];
+
+	// the procedures of the global scope and the methods of classes
+	resolver.symbolTree.children.forEach(child => {
+		procedures = procedures.concat([ child ].concat(child.children).filter(function(node) {
+			return node.data instanceof VBSMethodSymbol || node.data instanceof VBSPropertySymbol;
+		}));
+	});
+
+	// the jobs of a Windows Script File have globals of their own - null is the rest of the document
+	let globalsByJob = new Map<VBSJobScope, VBSSymbol[]>();
+
+	procedures.forEach(procedure => {
+		let position = procedure.data.symbolRange.start;
+		let job = resolver.GetJobAt(position);
+
+		if(!globalsByJob.has(job)) {
+			globalsByJob.set(job, resolver.symbolTree.children.map(function(child) { return child.data; }).filter(function(symbol) {
+				return resolver.IsVisibleAt(symbol, position);
+			}).concat(resolver.GetIncludedGlobals(position)));
+		}
+
+		let globals = globalsByJob.get(job);
+
+		procedure.children.forEach(local => {
+			if(!(local.data instanceof VBSVariableSymbol) && !(local.data instanceof VBSConstantSymbol))
+				return;
+
+			let lowerName = local.data.name.toLowerCase();
+			let global = globals.filter(function(symbol) { return symbol.name.toLowerCase() == lowerName; })[0];
+
+			if(global != null)
+				report(local.data.nameLocation.range, "'" + local.data.name + "' hides the global '" + global.name + "'!", "shadowed-global");
+		});
+	});
+}
+
+// "x = New Foo" and "x = CreateObject(...)" are the runtime error "Object doesn't support this property or method"
+function CheckMissingSet(program: ast.VBSProgram, report: ReportFunction) {
+	ast.ForEachNode(program, node => {
+		if(node instanceof ast.VBSAssignmentStatement && !node.isSet && node.target != null && IsNewObject(node.value))
+			report(node.target.range, "Objects are assigned with 'Set'!", "missing-set");
+	});
+}
+
+// "New Foo", "CreateObject(...)", "Server.CreateObject(...)", "GetObject(...)"
+function IsNewObject(expression: ast.VBSExpression): boolean {
+	if(expression instanceof ast.VBSNewExpression)
+		return true;
+
+	if(!(expression instanceof ast.VBSCallExpression))
+		return false;
+
+	let callee = expression.callee;
+	let name = callee instanceof ast.VBSIdentifierExpression || callee instanceof ast.VBSMemberExpression ? callee.name.toLowerCase() : "";
+	return name == "createobject" || name == "getobject";
+}
+
+// "' vbslint-disable-next-line" suppresses every rule on the next line, followed by rule names just these
+function RemoveSuppressed(diagnostics: ls.Diagnostic[], program: ast.VBSProgram): ls.Diagnostic[] {
+	let suppressions = new Map<number, string[]>();
+
+	program.comments.forEach(comment => {
+		let text = comment.text[0] == "'" ? comment.text.substring(1) : comment.text.substring(3);
+		let match = suppressionPattern.exec(text);
+
+		if(match != null)
+			suppressions.set(comment.range.start.line + 1, match[1].split(/[\s,]+/).filter(function(rule) { return rule != ""; }));
+	});
+
+	return diagnostics.filter(function(diagnostic) {
+		let rules = suppressions.get(diagnostic.range.start.line);
+		return rules == null || (rules.length > 0 && rules.indexOf(<string>diagnostic.code) == -1);
+	});
+}
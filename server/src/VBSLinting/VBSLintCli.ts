@@ -0,0 +1,308 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComparePositions } from "../VBSParser/VBSToken";
+import { ParseScriptFile } from "../VBSWorkspace/VBSScriptFile";
+import { VBSWorkspaceIndex, FindScriptFiles, scriptFileExtensions } from "../VBSWorkspace/VBSWorkspaceIndex";
+import { SetVirtualRoot } from "../VBSWorkspace/VBSIncludes";
+import { PathToUri } from "../VBSWorkspace/VBSUri";
+import { LoadTypeCatalogFile, SetUserTypeCatalogs } from "../VBSRuntime/VBSTypeCatalog";
+import { VBSCheckerOptions, checkerRules } from "./VBSChecker";
+import { CreateResolver, LintDocument } from "./VBSLinter";
+import { VBSLintResult, FormatReport, CountErrors, reportFormats } from "./VBSLintReport";
+
+// vbs-lint checks script files like the language server does - for build servers without an editor
+
+const usage = [
+	"Usage: vbs-lint [options] <file | folder | glob>...",
+	"",
+	"Checks VBScript files like the language server does. Folders are searched for script",
+	"files (" + scriptFileExtensions.join(", ") + "), globs like \"src/**/*.vbs\" are",
+	"matched against them.",
+	"",
+	"Options:",
+	"  -f, --format <format>     " + reportFormats.join(", ") + " (default: text)",
+	"  -o, --output <file>       writes the report into the file",
+	"  --require-declaration     reports undeclared variables without \"Option Explicit\" as well",
+	"  --rule <rule>=<severity>  error, warning, information, hint or off for one of the rules",
+	"                            " + checkerRules.join(", "),
+	"  --type-catalog <file>     a JSON type catalog - can be given more than once",
+	"  --virtual-root <folder>   the folder of <!--#include virtual=\"/...\"--> (default: .)",
+	"  -h, --help                shows this help",
+	"",
+	"Exit code: 0 without errors, 1 if errors were found, 2 if the options or files are invalid.",
+	""
+].join("\n");
+
+const severityNames: string[] = [ "error", "warning", "information", "hint", "off" ];
+
+class VBSLintArguments {
+	public patterns: string[] = [];
+	public format: string = "text";
+	public outputPath: string = "";
+	public checkerOptions: VBSCheckerOptions = new VBSCheckerOptions();
+	public typeCatalogPaths: string[] = [];
+	public virtualRoot: string = ".";
+	public showHelp: boolean = false;
+}
+
+// returns the exit code - messages about invalid options or files are written to stderr
+export async function Main(args: string[]): Promise<number> {
+	let options: VBSLintArguments;
+
+	try {
+		options = ParseArguments(args);
+	} catch(error) {
+		process.stderr.write("vbs-lint: " + error.message + "\n\n" + usage);
+		return 2;
+	}
+
+	if(options.showHelp) {
+		process.stdout.write(usage);
+		return 0;
+	}
+
+	let results: VBSLintResult[];
+
+	try {
+		SetUserTypeCatalogs(options.typeCatalogPaths.map(function(catalogPath) {
+			try {
+				return LoadTypeCatalogFile(catalogPath);
+			} catch(error) {
+				throw new Error("Could not load the type catalog '" + catalogPath + "': " + error.message);
+			}
+		}));
+
+		SetVirtualRoot(path.resolve(options.virtualRoot));
+		results = await LintFiles(await FindFiles(options.patterns), options.checkerOptions);
+
+		let report = FormatReport(results, options.format);
+
+		if(options.outputPath != "")
+			fs.writeFileSync(options.outputPath, report, "utf8");
+		else
+			process.stdout.write(report);
+	} catch(error) {
+		process.stderr.write("vbs-lint: " + error.message + "\n");
+		return 2;
+	}
+
+	return CountErrors(results) > 0 ? 1 : 0;
+}
+
+// Every file is indexed before the first one is checked, so the files see each other when
+// they include each other. Included files which are not linted are read on demand.
+export async function LintFiles(filePaths: string[], checkerOptions: VBSCheckerOptions): Promise<VBSLintResult[]> {
+	let index = new VBSWorkspaceIndex();
+
+	let scriptFiles = filePaths.map(filePath => {
+		let text: string;
+
+		try {
+			text = fs.readFileSync(filePath, "utf8");
+		} catch(error) {
+			throw new Error("Could not read '" + filePath + "': " + error.message);
+		}
+
+		// editors hide the byte order mark - the columns have to be the same
+		let scriptFile = ParseScriptFile(PathToUri(path.resolve(filePath)), text.replace(/^\uFEFF/, ""));
+		index.UpdateOpenDocument(scriptFile);
+		return scriptFile;
+	});
+
+	let results: VBSLintResult[] = [];
+
+	for (let i = 0; i < scriptFiles.length; i++) {
+		let scriptFile = scriptFiles[i];
+		let resolver = CreateResolver(index, scriptFile.uri, scriptFile.program, scriptFile.symbols);
+		let result = new VBSLintResult();
+		result.filePath = path.relative(".", filePaths[i]) || filePaths[i];
+		result.diagnostics = (await LintDocument(index, scriptFile.uri, resolver, scriptFile.symbols, checkerOptions)).sort(function(a, b) {
+			return ComparePositions(a.range.start, b.range.start);
+		});
+
+		results.push(result);
+	}
+
+	return results;
+}
+
+// throws if the options are invalid
+function ParseArguments(args: string[]): VBSLintArguments {
+	let options = new VBSLintArguments();
+	let severities: { [rule: string]: string; } = {};
+
+	for (let i = 0; i < args.length; i++) {
+		let arg = args[i];
+		let value: string = null;
+
+		// "--format=json" and "--format json"
+		let match = /^(--[a-z-]+)=(.*)$/.exec(arg);
+
+		if(match != null) {
+			arg = match[1];
+			value = match[2];
+		}
+
+		let takeValue = function(): string {
+			if(value != null)
+				return value;
+
+			if(i + 1 >= args.length)
+				throw new Error("The option '" + arg + "' needs a value.");
+
+			return args[++i];
+		};
+
+		switch(arg) {
+		case "-h":
+		case "--help":
+			options.showHelp = true;
+			break;
+		case "-f":
+		case "--format":
+			options.format = takeValue().toLowerCase();
+
+			if(reportFormats.indexOf(options.format) == -1)
+				throw new Error("Unknown format '" + options.format + "'.");
+
+			break;
+		case "-o":
+		case "--output":
+			options.outputPath = takeValue();
+			break;
+		case "--require-declaration":
+			options.checkerOptions.requireDeclaration = true;
+			break;
+		case "--rule":
+			let rule = takeValue();
+			let separator = rule.lastIndexOf("=");
+			let name = separator > -1 ? rule.substring(0, separator) : rule;
+			let severity = separator > -1 ? rule.substring(separator + 1).toLowerCase() : "";
+
+			if(checkerRules.indexOf(name) == -1)
+				throw new Error("Unknown rule '" + name + "'.");
+
+			if(severityNames.indexOf(severity) == -1)
+				throw new Error("The rule '" + name + "' needs one of the severities " + severityNames.join(", ") + ".");
+
+			severities[name] = severity;
+			break;
+		case "--type-catalog":
+			options.typeCatalogPaths.push(takeValue());
+			break;
+		case "--virtual-root":
+			options.virtualRoot = takeValue();
+			break;
+		default:
+			if(arg.length > 1 && arg[0] == "-")
+				throw new Error("Unknown option '" + arg + "'.");
+
+			options.patterns.push(arg);
+		}
+	}
+
+	options.checkerOptions.SetSeverities(severities);
+
+	if(options.patterns.length == 0 && !options.showHelp)
+		throw new Error("No files given.");
+
+	return options;
+}
+
+// the files in the order of the patterns, each of them once
+async function FindFiles(patterns: string[]): Promise<string[]> {
+	let filePaths: string[] = [];
+
+	for (let i = 0; i < patterns.length; i++) {
+		let pattern = patterns[i];
+		let matches: string[];
+
+		if(IsGlob(pattern)) {
+			matches = await FindGlobMatches(pattern);
+		} else {
+			let stats: fs.Stats;
+
+			try {
+				stats = fs.statSync(pattern);
+			} catch(error) {
+				throw new Error("Could not find '" + pattern + "'.");
+			}
+
+			matches = stats.isDirectory() ? await FindScriptFiles(pattern) : [ pattern ];
+		}
+
+		if(matches.length == 0)
+			throw new Error("No script files match '" + pattern + "'.");
+
+		matches.forEach(match => {
+			let filePath = path.resolve(match);
+
+			if(filePaths.indexOf(filePath) == -1)
+				filePaths.push(filePath);
+		});
+	}
+
+	return filePaths;
+}
+
+function IsGlob(pattern: string): boolean {
+	return /[*?[{]/.test(pattern);
+}
+
+// "src/**/*.vbs" - the folder in front of the first wildcard is searched for script files
+async function FindGlobMatches(pattern: string): Promise<string[]> {
+	let segments = pattern.replace(/\\/g, "/").split("/");
+	let firstGlob = segments.findIndex(IsGlob);
+	let folderPath = segments.slice(0, firstGlob).join("/");
+
+	if(folderPath == "")
+		folderPath = firstGlob > 0 ? "/" : ".";
+
+	let expression = GlobToRegExp(segments.slice(firstGlob).join("/"));
+
+	return (await FindScriptFiles(folderPath)).filter(function(filePath) {
+		return expression.test(path.relative(folderPath, filePath).replace(/\\/g, "/"));
+	});
+}
+
+// "*", "**", "?", "[abc]" and "{vbs,asp}" - the file systems of Windows ignore the case
+function GlobToRegExp(glob: string): RegExp {
+	let source = "";
+	let braceDepth = 0;
+
+	for (let i = 0; i < glob.length; i++) {
+		let char = glob[i];
+
+		if(char == "*" && glob[i + 1] == "*") {
+			// "**/" matches no folder as well
+			if(glob[i + 2] == "/") {
+				source += "(?:.*/)?";
+				i += 2;
+			} else {
+				source += ".*";
+				i++;
+			}
+		} else if(char == "*") {
+			source += "[^/]*";
+		} else if(char == "?") {
+			source += "[^/]";
+		} else if(char == "[" && glob.indexOf("]", i + 2) > -1) {
+			let end = glob.indexOf("]", i + 2);
+			let characters = glob.substring(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\");
+			source += "[" + characters + "]";
+			i = end;
+		} else if(char == "{") {
+			source += "(?:";
+			braceDepth++;
+		} else if(char == "}" && braceDepth > 0) {
+			source += ")";
+			braceDepth--;
+		} else if(char == "," && braceDepth > 0) {
+			source += "|";
+		} else {
+			source += char.replace(/[.+^$()|\\\]{}]/g, "\\$&");
+		}
+	}
+
+	return new RegExp("^" + source + "$", process.platform == "win32" ? "i" : "");
+}
@@ -0,0 +1,178 @@
+import * as ls from 'vscode-languageserver';
+
+export const reportFormats: string[] = [ "text", "json", "sarif", "checkstyle" ];
+
+// the diagnostics of one file - the path is the one shown in the report
+export class VBSLintResult {
+	public filePath: string = "";
+	public diagnostics: ls.Diagnostic[] = [];
+}
+
+// lines and columns start at 1 in every format
+export function FormatReport(results: VBSLintResult[], format: string): string {
+	switch(format) {
+	case "json":
+		return FormatJson(results);
+	case "sarif":
+		return FormatSarif(results);
+	case "checkstyle":
+		return FormatCheckstyle(results);
+	default:
+		return FormatText(results);
+	}
+}
+
+export function CountErrors(results: VBSLintResult[]): number {
+	return CountSeverity(results, ls.DiagnosticSeverity.Error);
+}
+
+function CountSeverity(results: VBSLintResult[], severity: ls.DiagnosticSeverity): number {
+	let count = 0;
+
+	results.forEach(result => {
+		count += result.diagnostics.filter(function(diagnostic) { return diagnostic.severity == severity; }).length;
+	});
+
+	return count;
+}
+
+function GetSeverityName(severity: ls.DiagnosticSeverity): string {
+	switch(severity) {
+	case ls.DiagnosticSeverity.Error:
+		return "error";
+	case ls.DiagnosticSeverity.Warning:
+		return "warning";
+	case ls.DiagnosticSeverity.Information:
+		return "information";
+	default:
+		return "hint";
+	}
+}
+
+// "lib/db.vbs:12:5: error Variable 'x' is not declared! [undeclared-variable]"
+function FormatText(results: VBSLintResult[]): string {
+	let lines: string[] = [];
+
+	results.forEach(result => {
+		result.diagnostics.forEach(diagnostic => {
+			let start = diagnostic.range.start;
+			lines.push(result.filePath + ":" + (start.line + 1) + ":" + (start.character + 1) + ": " + GetSeverityName(diagnostic.severity) + " " + diagnostic.message + " [" + diagnostic.code + "]");
+		});
+	});
+
+	let errors = CountErrors(results);
+	let warnings = CountSeverity(results, ls.DiagnosticSeverity.Warning);
+	let others = results.reduce(function(count, result) { return count + result.diagnostics.length; }, 0) - errors - warnings;
+
+	if(lines.length > 0)
+		lines.push("");
+
+	lines.push(errors + " error(s), " + warnings + " warning(s), " + others + " hint(s) in " + results.length + " file(s)");
+	return lines.join("\n") + "\n";
+}
+
+function FormatJson(results: VBSLintResult[]): string {
+	let files = results.map(function(result) {
+		return {
+			filePath: result.filePath,
+			diagnostics: result.diagnostics.map(function(diagnostic) {
+				return {
+					line: diagnostic.range.start.line + 1,
+					column: diagnostic.range.start.character + 1,
+					endLine: diagnostic.range.end.line + 1,
+					endColumn: diagnostic.range.end.character + 1,
+					severity: GetSeverityName(diagnostic.severity),
+					code: diagnostic.code,
+					message: diagnostic.message
+				};
+			})
+		};
+	});
+
+	return JSON.stringify(files, null, 2) + "\n";
+}
+
+// SARIF 2.1.0 as read by code scanning services - the rules are the codes which occur
+function FormatSarif(results: VBSLintResult[]): string {
+	let ruleIds: string[] = [];
+	let sarifResults: object[] = [];
+
+	results.forEach(result => {
+		result.diagnostics.forEach(diagnostic => {
+			let ruleId = String(diagnostic.code);
+
+			if(ruleIds.indexOf(ruleId) == -1)
+				ruleIds.push(ruleId);
+
+			sarifResults.push({
+				ruleId: ruleId,
+				ruleIndex: ruleIds.indexOf(ruleId),
+				level: GetSarifLevel(diagnostic.severity),
+				message: { text: diagnostic.message },
+				locations: [ {
+					physicalLocation: {
+						artifactLocation: { uri: result.filePath.replace(/\\/g, "/") },
+						region: {
+							startLine: diagnostic.range.start.line + 1,
+							startColumn: diagnostic.range.start.character + 1,
+							endLine: diagnostic.range.end.line + 1,
+							endColumn: diagnostic.range.end.character + 1
+						}
+					}
+				} ]
+			});
+		});
+	});
+
+	let log = {
+		$schema: "https://json.schemastore.org/sarif-2.1.0.json",
+		version: "2.1.0",
+		runs: [ {
+			tool: {
+				driver: {
+					name: "vbs-lint",
+					rules: ruleIds.map(function(ruleId) { return { id: ruleId }; })
+				}
+			},
+			results: sarifResults
+		} ]
+	};
+
+	return JSON.stringify(log, null, 2) + "\n";
+}
+
+function GetSarifLevel(severity: ls.DiagnosticSeverity): string {
+	switch(severity) {
+	case ls.DiagnosticSeverity.Error:
+		return "error";
+	case ls.DiagnosticSeverity.Warning:
+		return "warning";
+	default:
+		return "note";
+	}
+}
+
+// the format of Checkstyle which most CI servers can show
+function FormatCheckstyle(results: VBSLintResult[]): string {
+	let lines: string[] = [ "<?xml version=\"1.0\" encoding=\"utf-8\"?>", "<checkstyle version=\"4.3\">" ];
+
+	results.forEach(result => {
+		lines.push("\t<file name=\"" + EscapeXml(result.filePath) + "\">");
+
+		result.diagnostics.forEach(diagnostic => {
+			let severity = diagnostic.severity == ls.DiagnosticSeverity.Error || diagnostic.severity == ls.DiagnosticSeverity.Warning ? GetSeverityName(diagnostic.severity) : "info";
+
+			lines.push("\t\t<error line=\"" + (diagnostic.range.start.line + 1) + "\" column=\"" + (diagnostic.range.start.character + 1)
+				+ "\" severity=\"" + severity + "\" message=\"" + EscapeXml(diagnostic.message) + "\" source=\"vbs-lint." + EscapeXml(String(diagnostic.code)) + "\"/>");
+		});
+
+		lines.push("\t</file>");
+	});
+
+	lines.push("</checkstyle>");
+	return lines.join("\n") + "\n";
+}
+
+function EscapeXml(text: string): string {
+	return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
@@ -0,0 +1,63 @@
+import * as ls from 'vscode-languageserver';
+import * as ast from "../VBSParser/VBSSyntaxTree";
+import { VBSSymbol } from "../VBSSymbols/VBSSymbol";
+import { VBSSymbolResolver, VBSJobScope } from "../VBSSymbols/VBSSymbolResolver";
+import { GetVBSSymbolTree } from "../VBSSymbols/VBSSymbolTree";
+import { VBSWorkspaceIndex } from "../VBSWorkspace/VBSWorkspaceIndex";
+import { ResolveIncludes } from "../VBSWorkspace/VBSIncludes";
+import { GetHostObjects } from "../VBSRuntime/VBSTypeCatalog";
+import { CheckDocument, VBSCheckerOptions } from "./VBSChecker";
+
+// The analysis of a file without a connection to a client - the language server and vbs-lint
+// report the same diagnostics.
+
+// a resolver which knows the globals of the included files and the objects of the host
+export function CreateResolver(index: VBSWorkspaceIndex, uri: string, program: ast.VBSProgram, symbols: VBSSymbol[]): VBSSymbolResolver {
+	let file = index.GetFile(uri);
+	let includedSymbols = ResolveIncludes(index, uri).files.map(function(includedFile) {
+		return includedFile.symbols;
+	});
+
+	// the jobs of a Windows Script File don't see the includes of each other
+	let jobs = (file != null ? file.jobs : []).map(function(job) {
+		let scope = new VBSJobScope();
+		scope.range = job.range;
+		scope.hasReferences = job.hasReferences;
+		scope.includedTrees = ResolveIncludes(index, uri, job.range).files.map(function(includedFile) {
+			return GetVBSSymbolTree(includedFile.symbols);
+		});
+		return scope;
+	});
+
+	return new VBSSymbolResolver(uri, program, symbols, includedSymbols, GetHostObjects(file != null ? file.host : ""), jobs);
+}
+
+// syntax errors, includes which cannot be found and the checks of the declarations - null if the
+// token is cancelled before the checks are done
+export async function LintDocument(index: VBSWorkspaceIndex, uri: string, resolver: VBSSymbolResolver, symbols: VBSSymbol[], options: VBSCheckerOptions, token: ls.CancellationToken = ls.CancellationToken.None): Promise<ls.Diagnostic[]> {
+	let checkDiagnostics = await CheckDocument(resolver, symbols, GetSharedNames(index, uri), options, token);
+
+	if(checkDiagnostics == null)
+		return null;
+
+	return resolver.program.diagnostics
+		.concat(ResolveIncludes(index, uri).diagnostics)
+		.concat(checkDiagnostics);
+}
+
+// The names used by the included files, which see the globals of the document as well - null
+// if other files include the document and might use any of its globals.
+function GetSharedNames(index: VBSWorkspaceIndex, uri: string): Set<string> {
+	if(index.GetIncluders(uri).length > 0)
+		return null;
+
+	let names = new Set<string>();
+
+	ResolveIncludes(index, uri).files.forEach(file => {
+		file.names.forEach(name => {
+			names.add(name);
+		});
+	});
+
+	return names;
+}
@@ -0,0 +1,296 @@
+import * as ls from 'vscode-languageserver';
+import * as ast from "../VBSParser/VBSSyntaxTree";
+import { VBSTokenKind, FindLastTokenBefore, ComparePositions } from "../VBSParser/VBSToken";
+import { HasMarkup, VBSJob } from "../VBSParser/VBSScriptSource";
+import { PositionInRange } from "../VBSSymbols/VBSSymbolTree";
+import { HasOptionExplicit } from "./VBSChecker";
+
+// "source.addOptionExplicit" can be run on save by the editor
+export const addOptionExplicitKind: string = ls.CodeActionKind.Source + ".addOptionExplicit";
+
+// the document the edits are made for
+class VBSFixContext {
+	public uri: string = "";
+	public program: ast.VBSProgram = null;
+	public lines: string[] = [];
+	// the line break of the document for the inserted lines
+	public lineBreak: string = "\r\n";
+	// the jobs of Windows Script Files have their own "Option Explicit"
+	public jobs: VBSJob[] = [];
+}
+
+// Quick fixes for the diagnostics of the parser and the checker. The client sends the diagnostics
+// back, they are found in the syntax tree again by their ranges - diagnostics which are out of
+// date get no fix.
+export function GetCodeActions(uri: string, text: string, program: ast.VBSProgram, jobs: VBSJob[], context: ls.CodeActionContext): ls.CodeAction[] {
+	let fixContext = new VBSFixContext();
+	fixContext.uri = uri;
+	fixContext.program = program;
+	fixContext.jobs = jobs;
+	fixContext.lines = text.split(/\r\n|\r|\n/);
+
+	let lineBreak = /\r\n|\r|\n/.exec(text);
+
+	if(lineBreak != null)
+		fixContext.lineBreak = lineBreak[0];
+
+	let actions: ls.CodeAction[] = [];
+	// the ranges of the jobs without "Option Explicit" - null stands for the whole document
+	let rangesWithoutOptionExplicit = GetOptionExplicitRanges(fixContext).filter(function(range) { return !HasOptionExplicit(program, range); });
+	let offeredRanges: number[] = [];
+
+	context.diagnostics.forEach(diagnostic => {
+		if(diagnostic.source != "vbs")
+			return;
+
+		switch(diagnostic.code) {
+		case "missing-end":
+			actions.push(FixMissingEnd(fixContext, diagnostic));
+			break;
+		case "mismatched-end":
+			actions.push(FixMismatchedEnd(fixContext, diagnostic));
+			break;
+		case "undeclared-variable":
+			actions.push(FixUndeclaredVariable(fixContext, diagnostic));
+
+			// "requireDeclaration" reports undeclared variables without "Option Explicit"
+			let rangeIndex = rangesWithoutOptionExplicit.findIndex(function(range) { return range == null || PositionInRange(range, diagnostic.range.start); });
+
+			if(rangeIndex > -1 && offeredRanges.indexOf(rangeIndex) == -1) {
+				actions.push(AddOptionExplicit(fixContext, ls.CodeActionKind.QuickFix, diagnostic, [ rangesWithoutOptionExplicit[rangeIndex] ]));
+				offeredRanges.push(rangeIndex);
+			}
+
+			break;
+		case "unused-variable":
+			actions.push(FixUnusedVariable(fixContext, diagnostic));
+			break;
+		case "missing-set":
+			actions.push(FixMissingSet(fixContext, diagnostic));
+			break;
+		}
+	});
+
+	if(rangesWithoutOptionExplicit.length > 0)
+		actions.push(AddOptionExplicit(fixContext, addOptionExplicitKind, null, rangesWithoutOptionExplicit));
+
+	return actions.filter(function(action) {
+		return action != null && (context.only == null || context.only.some(function(kind) { return action.kind == kind || action.kind.indexOf(kind + ".") == 0; }));
+	});
+}
+
+function CreateAction(fixContext: VBSFixContext, title: string, kind: string, diagnostic: ls.Diagnostic, edits: ls.TextEdit[], isPreferred: boolean = false): ls.CodeAction {
+	let changes: { [uri: string]: ls.TextEdit[]; } = {};
+	changes[fixContext.uri] = edits;
+
+	let action = ls.CodeAction.create(title, { changes: changes }, kind);
+
+	if(diagnostic != null)
+		action.diagnostics = [ diagnostic ];
+
+	if(isPreferred)
+		action.isPreferred = true;
+
+	return action;
+}
+
+// "Sub Foo" without "End Sub" - the end is inserted behind the last statement of the block
+function FixMissingEnd(fixContext: VBSFixContext, diagnostic: ls.Diagnostic): ls.CodeAction {
+	let node = <ast.VBSBlockStatement>FindNode(fixContext.program, function(node) {
+		return IsDeclarationBlock(node) && SameRange((<ast.VBSBlockStatement>node).keywordRange, diagnostic.range);
+	});
+
+	if(node == null)
+		return null;
+
+	let endText = GetEndText(node);
+	let lastStatement = node.body.length > 0 ? node.body[node.body.length - 1] : null;
+	let position = FindLineEnd(fixContext.program, lastStatement != null ? lastStatement.range.end : node.keywordRange.end);
+	let indentation = /^\s*/.exec(fixContext.lines[node.range.start.line])[0];
+
+	return CreateAction(fixContext, "Insert '" + endText + "'", ls.CodeActionKind.QuickFix, diagnostic, [
+		ls.TextEdit.insert(position, fixContext.lineBreak + indentation + endText)
+	], true);
+}
+
+// "End Function" which closes a "Sub"
+function FixMismatchedEnd(fixContext: VBSFixContext, diagnostic: ls.Diagnostic): ls.CodeAction {
+	let node = <ast.VBSBlockStatement>FindNode(fixContext.program, function(node) {
+		return IsDeclarationBlock(node) && SameRange((<ast.VBSBlockStatement>node).endRange, diagnostic.range);
+	});
+
+	if(node == null)
+		return null;
+
+	let endText = GetEndText(node);
+
+	return CreateAction(fixContext, "Change to '" + endText + "'", ls.CodeActionKind.QuickFix, diagnostic, [
+		ls.TextEdit.replace(node.endRange, endText)
+	], true);
+}
+
+// "Dim x" at the start of the procedure - in the global scope in front of the statement which uses it
+function FixUndeclaredVariable(fixContext: VBSFixContext, diagnostic: ls.Diagnostic): ls.CodeAction {
+	let identifier = <ast.VBSIdentifierExpression>FindNode(fixContext.program, function(node) {
+		return node instanceof ast.VBSIdentifierExpression && SameRange(node.range, diagnostic.range);
+	});
+
+	if(identifier == null)
+		return null;
+
+	let procedure = ast.FindAncestor(identifier, ast.VBSProcedureDeclaration);
+	let statement: ast.VBSNode = identifier;
+
+	if(procedure != null) {
+		statement = procedure.body[0];
+	} else {
+		while(statement.parent != null && !(statement.parent instanceof ast.VBSProgram))
+			statement = statement.parent;
+	}
+
+	// "<%= x %>" cannot contain a declaration
+	if(statement == null || statement instanceof ast.VBSOutputStatement)
+		return null;
+
+	let title = "Add 'Dim " + identifier.name + "'" + (procedure != null ? " to '" + procedure.name + "'" : "");
+
+	return CreateAction(fixContext, title, ls.CodeActionKind.QuickFix, diagnostic, [
+		InsertLineBefore(fixContext, statement.range.start, "Dim " + identifier.name)
+	]);
+}
+
+// the whole document - or every job of a Windows Script File
+function GetOptionExplicitRanges(fixContext: VBSFixContext): ls.Range[] {
+	return fixContext.jobs.length > 0 ? fixContext.jobs.map(function(job) { return job.range; }) : [ null ];
+}
+
+// at the top of the file - in front of the first statement of ASP pages and of each job of Windows Script Files
+function AddOptionExplicit(fixContext: VBSFixContext, kind: string, diagnostic: ls.Diagnostic, ranges: ls.Range[]): ls.CodeAction {
+	if(!HasMarkup(fixContext.uri))
+		return CreateAction(fixContext, "Add 'Option Explicit'", kind, diagnostic, [ ls.TextEdit.insert(ls.Position.create(0, 0), "Option Explicit" + fixContext.lineBreak) ]);
+
+	let edits: ls.TextEdit[] = [];
+
+	ranges.forEach(range => {
+		let statement = fixContext.program.statements.filter(function(statement) { return range == null || PositionInRange(range, statement.range.start); })[0];
+
+		if(statement != null && !(statement instanceof ast.VBSOutputStatement))
+			edits.push(InsertLineBefore(fixContext, statement.range.start, "Option Explicit"));
+	});
+
+	if(edits.length == 0)
+		return null;
+
+	return CreateAction(fixContext, "Add 'Option Explicit'", kind, diagnostic, edits);
+}
+
+// "Dim a, b, c" loses "b" - a "Dim" of the unused variable alone is removed with its line
+function FixUnusedVariable(fixContext: VBSFixContext, diagnostic: ls.Diagnostic): ls.CodeAction {
+	let declaration = <ast.VBSVariableDeclaration>FindNode(fixContext.program, function(node) {
+		return node instanceof ast.VBSVariableDeclaration && node.declarators.some(function(declarator) { return SameRange(declarator.nameRange, diagnostic.range); });
+	});
+
+	if(declaration == null)
+		return null;
+
+	let declarators = declaration.declarators;
+	let index = declarators.findIndex(function(declarator) { return SameRange(declarator.nameRange, diagnostic.range); });
+	let declarator = declarators[index];
+	let range: ls.Range;
+
+	if(declarators.length > 1 && index < declarators.length - 1)
+		range = ls.Range.create(declarator.range.start, declarators[index + 1].range.start);
+	else if(declarators.length > 1)
+		range = ls.Range.create(declarators[index - 1].range.end, declarator.range.end);
+	else
+		range = GetStatementRemovalRange(fixContext, declaration);
+
+	return CreateAction(fixContext, "Remove unused variable '" + declarator.name + "'", ls.CodeActionKind.QuickFix, diagnostic, [
+		ls.TextEdit.del(range)
+	]);
+}
+
+// "x = New Foo" and "Let x = New Foo" become "Set x = New Foo"
+function FixMissingSet(fixContext: VBSFixContext, diagnostic: ls.Diagnostic): ls.CodeAction {
+	let assignment = <ast.VBSAssignmentStatement>FindNode(fixContext.program, function(node) {
+		return node instanceof ast.VBSAssignmentStatement && node.target != null && SameRange(node.target.range, diagnostic.range);
+	});
+
+	if(assignment == null)
+		return null;
+
+	let edit: ls.TextEdit;
+
+	if(ComparePositions(assignment.range.start, assignment.target.range.start) < 0) {
+		let keyword = fixContext.program.tokens[FindLastTokenBefore(fixContext.program.tokens, assignment.range.start) + 1];
+		edit = ls.TextEdit.replace(keyword.range, "Set");
+	} else {
+		edit = ls.TextEdit.insert(assignment.range.start, "Set ");
+	}
+
+	return CreateAction(fixContext, "Add 'Set'", ls.CodeActionKind.QuickFix, diagnostic, [ edit ], true);
+}
+
+function IsDeclarationBlock(node: ast.VBSNode): boolean {
+	return node instanceof ast.VBSClassDeclaration || node instanceof ast.VBSProcedureDeclaration;
+}
+
+function GetEndText(node: ast.VBSBlockStatement): string {
+	if(node instanceof ast.VBSClassDeclaration)
+		return "End Class";
+
+	if(node instanceof ast.VBSPropertyDeclaration)
+		return "End Property";
+
+	return (<ast.VBSMethodDeclaration>node).methodType.toLowerCase() == "function" ? "End Function" : "End Sub";
+}
+
+function FindNode(program: ast.VBSProgram, predicate: (node: ast.VBSNode) => boolean): ast.VBSNode {
+	let found: ast.VBSNode = null;
+
+	ast.ForEachNode(program, node => {
+		if(found == null && predicate(node))
+			found = node;
+	});
+
+	return found;
+}
+
+function SameRange(a: ls.Range, b: ls.Range): boolean {
+	return a != null && ComparePositions(a.start, b.start) == 0 && ComparePositions(a.end, b.end) == 0;
+}
+
+// the end of the logical line of the position - behind comments and line continuations
+function FindLineEnd(program: ast.VBSProgram, position: ls.Position): ls.Position {
+	let tokens = program.tokens;
+	let index = FindLastTokenBefore(tokens, position) + 1;
+
+	while(index < tokens.length - 1 && tokens[index].kind != VBSTokenKind.NewLine)
+		index++;
+
+	return tokens[index].range.start;
+}
+
+// a new line in front of the code at the position - the code keeps its column
+function InsertLineBefore(fixContext: VBSFixContext, position: ls.Position, text: string): ls.TextEdit {
+	let prefix = fixContext.lines[position.line].substring(0, position.character);
+	return ls.TextEdit.insert(position, text + fixContext.lineBreak + prefix.replace(/[^\t]/g, " "));
+}
+
+// the lines of a statement which has them to itself - otherwise the statement and a colon behind it
+function GetStatementRemovalRange(fixContext: VBSFixContext, statement: ast.VBSStatement): ls.Range {
+	let start = statement.range.start;
+	let end = statement.range.end;
+
+	// whitespace only - markup of ASP pages and comments stay
+	if(/^\s*$/.test(fixContext.lines[start.line].substring(0, start.character)) && /^\s*$/.test(fixContext.lines[end.line].substring(end.character)) && end.line + 1 < fixContext.lines.length)
+		return ls.Range.create(start.line, 0, end.line + 1, 0);
+
+	let tokens = fixContext.program.tokens;
+	let nextIndex = FindLastTokenBefore(tokens, end) + 1;
+
+	if(tokens[nextIndex].kind == VBSTokenKind.Colon)
+		return ls.Range.create(start, tokens[nextIndex + 1].range.start);
+
+	return statement.range;
+}
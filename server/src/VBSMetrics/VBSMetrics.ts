@@ -0,0 +1,63 @@
+import * as ls from 'vscode-languageserver';
+import * as ast from "../VBSParser/VBSSyntaxTree";
+
+export class VBSProcedureMetrics {
+	public name: string = "";
+	// the class of a method or property - empty for procedures of the global scope
+	public className: string = "";
+	// "Sub", "Function", "Property Get", "Property Let" or "Property Set"
+	public kind: string = "";
+	public range: ls.Range = null;
+	public nameRange: ls.Range = null;
+	public lineCount: number = 0;
+	public complexity: number = 1;
+}
+
+export class VBSFileMetrics {
+	public uri: string = "";
+	public procedures: VBSProcedureMetrics[] = [];
+}
+
+// The cyclomatic complexity of a procedure is one plus the number of its branches: every "If",
+// "ElseIf", "Case" (but "Case Else"), loop and "While". "And" and "Or" do not count because
+// VBScript always evaluates both operands.
+export function GetProcedureMetrics(program: ast.VBSProgram): VBSProcedureMetrics[] {
+	let procedures: VBSProcedureMetrics[] = [];
+
+	ast.ForEachNode(program, node => {
+		if(!(node instanceof ast.VBSProcedureDeclaration))
+			return;
+
+		let classNode = ast.FindAncestor(node, ast.VBSClassDeclaration);
+		let metrics = new VBSProcedureMetrics();
+		metrics.name = node.name;
+		metrics.className = classNode != null ? classNode.name : "";
+		metrics.kind = node instanceof ast.VBSPropertyDeclaration ? "Property " + Capitalize(node.accessor) : Capitalize((<ast.VBSMethodDeclaration>node).methodType);
+		metrics.range = node.range;
+		metrics.nameRange = node.nameRange;
+		metrics.lineCount = node.range.end.line - node.range.start.line + 1;
+		metrics.complexity = 1 + CountBranches(node);
+		procedures.push(metrics);
+	});
+
+	return procedures;
+}
+
+function CountBranches(procedure: ast.VBSProcedureDeclaration): number {
+	let branches = 0;
+
+	ast.ForEachNode(procedure, node => {
+		if(node instanceof ast.VBSIfStatement)
+			branches += 1 + node.elseIfs.length;
+		else if(node instanceof ast.VBSCaseClause && !node.isElse)
+			branches++;
+		else if(node instanceof ast.VBSForStatement || node instanceof ast.VBSForEachStatement || node instanceof ast.VBSDoStatement || node instanceof ast.VBSWhileStatement)
+			branches++;
+	});
+
+	return branches;
+}
+
+function Capitalize(text: string): string {
+	return text.length > 0 ? text[0].toUpperCase() + text.substring(1).toLowerCase() : text;
+}
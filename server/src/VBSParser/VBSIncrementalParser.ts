@@ -0,0 +1,190 @@
+import * as ast from "./VBSSyntaxTree";
+import { VBSToken, VBSTokenKind, FindLastTokenBefore } from "./VBSToken";
+import { ParseDocument } from "./VBSParser";
+
+// The lines of a Sub, Function, Property or Class of the global scope which contain a change,
+// together with the doc comment above. The region is parsed on its own - the positions of its
+// syntax tree start at line 0 until it is applied to the program.
+export class VBSChangedRegion {
+	public startLine: number = 0;
+	// the last line of the region in the old text
+	public oldEndLine: number = 0;
+	public lineDelta: number = 0;
+	public program: ast.VBSProgram = null;
+
+	// where the region is in the old text and in the tokens of the program
+	public startOffset: number = 0;
+	public offsetDelta: number = 0;
+	public statementIndex: number = 0;
+	public firstTokenIndex: number = 0;
+	public endTokenIndex: number = 0;
+}
+
+// null if the change is not limited to one procedure or class - the whole text has to be parsed then
+export function ParseChangedRegion(program: ast.VBSProgram, oldText: string, newText: string, allowOutputStatements: boolean = false): VBSChangedRegion {
+	if(oldText == newText)
+		return null;
+
+	// the part of the old text which has been replaced
+	let maxLength = Math.min(oldText.length, newText.length);
+	let changeStart = 0;
+
+	while(changeStart < maxLength && oldText.charCodeAt(changeStart) == newText.charCodeAt(changeStart))
+		changeStart++;
+
+	let suffixLength = 0;
+
+	while(suffixLength < maxLength - changeStart && oldText.charCodeAt(oldText.length - 1 - suffixLength) == newText.charCodeAt(newText.length - 1 - suffixLength))
+		suffixLength++;
+
+	let changeEnd = oldText.length - suffixLength;
+	let statementIndex = FindStatementAtLine(program.statements, CountLineBreaks(oldText, 0, changeStart));
+
+	if(statementIndex == -1)
+		return null;
+
+	let statements = program.statements;
+	let statement = statements[statementIndex];
+
+	if(!(statement instanceof ast.VBSClassDeclaration || statement instanceof ast.VBSProcedureDeclaration) || statement.endRange == null)
+		return null;
+
+	// "End Sub : Main" - the lines have to belong to the statement alone
+	if(statementIndex > 0 && statements[statementIndex - 1].range.end.line >= statement.range.start.line)
+		return null;
+
+	if(statementIndex + 1 < statements.length && statements[statementIndex + 1].range.start.line <= statement.range.end.line)
+		return null;
+
+	let tokens = program.tokens;
+	let firstTokenIndex = FindLastTokenBefore(tokens, statement.range.start) + 1;
+
+	// the doc comment is collected together with the symbols of the statement
+	while(firstTokenIndex >= 2 && IsLineBreak(tokens[firstTokenIndex - 1]) && tokens[firstTokenIndex - 2].kind == VBSTokenKind.Comment
+		&& tokens[firstTokenIndex - 2].range.start.line == tokens[firstTokenIndex].range.start.line - 1
+		&& (firstTokenIndex == 2 || IsLineBreak(tokens[firstTokenIndex - 3])))
+		firstTokenIndex -= 2;
+
+	// something in front of the statement on the same line, like another script block of an ASP page
+	if(firstTokenIndex > 0 && !IsLineBreak(tokens[firstTokenIndex - 1]))
+		return null;
+
+	let endTokenIndex = FindLastTokenBefore(tokens, statement.range.end) + 1;
+
+	while(endTokenIndex < tokens.length - 1 && tokens[endTokenIndex].kind != VBSTokenKind.NewLine)
+		endTokenIndex++;
+
+	let endToken = tokens[endTokenIndex];
+
+	if(endToken.range.start.line != statement.range.end.line || (endToken.kind != VBSTokenKind.EndOfFile && !IsLineBreak(endToken)))
+		return null;
+
+	let firstToken = tokens[firstTokenIndex];
+	let startOffset = firstToken.start - firstToken.range.start.character;
+
+	if(changeStart < startOffset || changeEnd > endToken.start)
+		return null;
+
+	let offsetDelta = newText.length - oldText.length;
+	let regionText = newText.substring(startOffset, endToken.start + offsetDelta);
+
+	// a line continuation at the end would join the line behind the region
+	if(/_[ \t]*$/.test(regionText))
+		return null;
+
+	let regionProgram = ParseDocument(regionText, allowOutputStatements);
+	let newStatement = regionProgram.statements.length == 1 ? regionProgram.statements[0] : null;
+
+	if(!(newStatement instanceof ast.VBSClassDeclaration || newStatement instanceof ast.VBSProcedureDeclaration) || newStatement.endRange == null)
+		return null;
+
+	let region = new VBSChangedRegion();
+	region.startLine = firstToken.range.start.line;
+	region.oldEndLine = endToken.range.start.line;
+	region.lineDelta = CountLineBreaks(regionText, 0, regionText.length) - (region.oldEndLine - region.startLine);
+	region.program = regionProgram;
+	region.startOffset = startOffset;
+	region.offsetDelta = offsetDelta;
+	region.statementIndex = statementIndex;
+	region.firstTokenIndex = firstTokenIndex;
+	region.endTokenIndex = endTokenIndex;
+	return region;
+}
+
+// Replaces the statement of the region in the program and moves everything behind it. The
+// nodes, diagnostics and symbols share their positions with the tokens, so just the tokens
+// are moved.
+export function ApplyChangedRegion(program: ast.VBSProgram, region: VBSChangedRegion) {
+	let statement = region.program.statements[0];
+	let tokensBehind = program.tokens.slice(region.endTokenIndex);
+	let diagnosticsBefore = program.diagnostics.filter(function(diagnostic) { return diagnostic.range.start.line < region.startLine; });
+	let diagnosticsBehind = program.diagnostics.filter(function(diagnostic) { return diagnostic.range.start.line > region.oldEndLine; });
+
+	MoveTokens(region.program.tokens, region.startOffset, region.startLine);
+	MoveTokens(tokensBehind, region.offsetDelta, region.lineDelta);
+
+	// the line break behind the region starts at the end of its last line
+	let regionEnd = region.program.tokens[region.program.tokens.length - 1].range.end;
+	let endToken = tokensBehind[0];
+	endToken.range.start.line = regionEnd.line;
+	endToken.range.start.character = regionEnd.character;
+
+	if(endToken.kind == VBSTokenKind.EndOfFile) {
+		endToken.range.end.line = regionEnd.line;
+		endToken.range.end.character = regionEnd.character;
+	}
+
+	statement.parent = program;
+	program.statements = program.statements.slice(0, region.statementIndex).concat([ statement ], program.statements.slice(region.statementIndex + 1));
+	program.tokens = program.tokens.slice(0, region.firstTokenIndex).concat(region.program.tokens.slice(0, region.program.tokens.length - 1), tokensBehind);
+	program.comments = program.tokens.filter(function(token) { return token.kind == VBSTokenKind.Comment; });
+	program.diagnostics = diagnosticsBefore.concat(region.program.diagnostics, diagnosticsBehind);
+}
+
+// the statement of the global scope which covers the line - -1 if the line is between statements
+function FindStatementAtLine(statements: ast.VBSStatement[], line: number): number {
+	let low = 0;
+	let high = statements.length - 1;
+
+	while(low <= high) {
+		let middle = (low + high) >> 1;
+		let range = statements[middle].range;
+
+		if(range.end.line < line)
+			low = middle + 1;
+		else if(range.start.line > line)
+			high = middle - 1;
+		else
+			return middle;
+	}
+
+	return -1;
+}
+
+// "\r\n", "\r" and "\n" like the lexer - the end of a script block does not start a new line
+function CountLineBreaks(text: string, start: number, end: number): number {
+	let count = 0;
+
+	for (let i = start; i < end; i++) {
+		let char = text.charCodeAt(i);
+
+		if(char == 10 || (char == 13 && text.charCodeAt(i + 1) != 10))
+			count++;
+	}
+
+	return count;
+}
+
+function IsLineBreak(token: VBSToken): boolean {
+	return token.kind == VBSTokenKind.NewLine && (token.text[0] == "\r" || token.text[0] == "\n");
+}
+
+function MoveTokens(tokens: VBSToken[], offsetDelta: number, lineDelta: number) {
+	for (let i = 0; i < tokens.length; i++) {
+		let range = tokens[i].range;
+		tokens[i].start += offsetDelta;
+		tokens[i].end += offsetDelta;
+		range.start.line += lineDelta;
+		range.end.line += lineDelta;
+	}
+}
@@ -0,0 +1,244 @@
+import * as ls from 'vscode-languageserver';
+import { VBSToken, VBSTokenKind } from "./VBSToken";
+
+const twoCharOperators: string[] = [ "<=", ">=", "<>" ];
+const oneCharOperators: string = "=<>+-*/\\^&(),.";
+
+// Ends a script block of an ASP page or a Windows Script File like a line break, but without
+// starting a new line - the markup in between is replaced by spaces to keep the positions.
+export const scriptBlockEnd: string = "\u2028";
+
+export class VBSLexer {
+	private text: string;
+	private index: number = 0;
+	private line: number = 0;
+	private lineStart: number = 0;
+	private tokens: VBSToken[] = [];
+
+	constructor(text: string) {
+		this.text = text;
+	}
+
+	public Tokenize(): VBSToken[] {
+		this.index = 0;
+		this.line = 0;
+		this.lineStart = 0;
+		this.tokens = [];
+
+		while(this.index < this.text.length) {
+			let char = this.text[this.index];
+
+			if(char == " " || char == "\t" || char == "\f" || char == "\v") {
+				this.index++;
+			} else if(char == "\r" || char == "\n") {
+				this.ReadNewLine();
+			} else if(char == scriptBlockEnd) {
+				this.AddToken(VBSTokenKind.NewLine, this.index, this.index + 1);
+			} else if(char == "'") {
+				this.ReadComment(this.index);
+			} else if(char == "\"") {
+				this.ReadString();
+			} else if(char == "#") {
+				this.ReadDate();
+			} else if(char == ":") {
+				this.AddToken(VBSTokenKind.Colon, this.index, this.index + 1);
+			} else if(char == "_" && this.IsLineContinuation()) {
+				this.SkipLineContinuation();
+			} else if(this.IsIdentifierStart(char)) {
+				this.ReadIdentifier();
+			} else if(char == "[") {
+				this.ReadBracketedIdentifier();
+			} else if(this.IsDigit(char) || (char == "." && this.IsDigit(this.Peek(1)) && !this.FollowsValue())) {
+				this.ReadNumber();
+			} else if(char == "&" && /[hHoO0-7]/.test(this.Peek(1)) && this.IsNumberLiteral()) {
+				this.ReadNumber();
+			} else if(twoCharOperators.indexOf(this.text.substr(this.index, 2)) > -1) {
+				this.AddToken(VBSTokenKind.Operator, this.index, this.index + 2);
+			} else if(oneCharOperators.indexOf(char) > -1) {
+				this.AddToken(VBSTokenKind.Operator, this.index, this.index + 1);
+			} else {
+				this.AddToken(VBSTokenKind.Unknown, this.index, this.index + 1);
+			}
+		}
+
+		this.tokens.push(new VBSToken(VBSTokenKind.EndOfFile, "", "", this.index, ls.Range.create(this.GetPosition(this.index), this.GetPosition(this.index))));
+
+		return this.tokens;
+	}
+
+	private Peek(offset: number): string {
+		let index = this.index + offset;
+
+		if(index >= this.text.length)
+			return "";
+
+		return this.text[index];
+	}
+
+	private GetPosition(offset: number): ls.Position {
+		return ls.Position.create(this.line, offset - this.lineStart);
+	}
+
+	private AddToken(kind: VBSTokenKind, start: number, end: number, value: string = null): VBSToken {
+		let text = this.text.substring(start, end);
+		let token = new VBSToken(kind, text, value == null ? text : value, start, ls.Range.create(this.GetPosition(start), this.GetPosition(end)));
+		this.tokens.push(token);
+		this.index = end;
+		return token;
+	}
+
+	private FollowsValue(): boolean {
+		// ".5" is a number but "obj.5" or "arr(1).5" are not
+		if(this.tokens.length == 0)
+			return false;
+
+		let previous = this.tokens[this.tokens.length - 1];
+
+		if(previous.end != this.index)
+			return false;
+
+		return previous.kind == VBSTokenKind.Identifier || previous.IsOperator(")");
+	}
+
+	private IsDigit(char: string): boolean {
+		return char >= "0" && char <= "9";
+	}
+
+	private IsIdentifierStart(char: string): boolean {
+		return (char >= "a" && char <= "z") || (char >= "A" && char <= "Z");
+	}
+
+	private IsIdentifierPart(char: string): boolean {
+		return this.IsIdentifierStart(char) || this.IsDigit(char) || char == "_";
+	}
+
+	private IsLineEnd(index: number): boolean {
+		return index >= this.text.length || this.text[index] == "\r" || this.text[index] == "\n" || this.text[index] == scriptBlockEnd;
+	}
+
+	// a line cannot be continued in the next script block
+	private IsLineContinuation(): boolean {
+		let index = this.index + 1;
+
+		while(index < this.text.length && (this.text[index] == " " || this.text[index] == "\t"))
+			index++;
+
+		return index < this.text.length && (this.text[index] == "\r" || this.text[index] == "\n");
+	}
+
+	private IsNumberLiteral(): boolean {
+		return /^&([hH][0-9a-fA-F]+|[oO]?[0-7]+)/.test(this.text.substr(this.index, 32));
+	}
+
+	private SkipLineContinuation() {
+		this.index++;
+
+		while(!this.IsLineEnd(this.index))
+			this.index++;
+
+		this.SkipLineBreak();
+	}
+
+	private SkipLineBreak() {
+		if(this.text[this.index] == "\r" && this.Peek(1) == "\n")
+			this.index += 2;
+		else
+			this.index++;
+
+		this.line++;
+		this.lineStart = this.index;
+	}
+
+	private ReadNewLine() {
+		let start = this.index;
+		let startPosition = this.GetPosition(start);
+		this.SkipLineBreak();
+
+		let text = this.text.substring(start, this.index);
+		this.tokens.push(new VBSToken(VBSTokenKind.NewLine, text, text, start, ls.Range.create(startPosition, this.GetPosition(this.index))));
+	}
+
+	private ReadComment(start: number) {
+		let end = start;
+
+		while(!this.IsLineEnd(end))
+			end++;
+
+		this.AddToken(VBSTokenKind.Comment, start, end);
+	}
+
+	private ReadString() {
+		let start = this.index;
+		let end = start + 1;
+		let value = "";
+
+		while(!this.IsLineEnd(end)) {
+			if(this.text[end] == "\"") {
+				if(this.text[end + 1] == "\"") {
+					value += "\"";
+					end += 2;
+					continue;
+				}
+
+				end++;
+				break;
+			}
+
+			value += this.text[end];
+			end++;
+		}
+
+		this.AddToken(VBSTokenKind.String, start, end, value);
+	}
+
+	private ReadDate() {
+		let start = this.index;
+		let end = start + 1;
+
+		while(!this.IsLineEnd(end) && this.text[end] != "#")
+			end++;
+
+		if(this.IsLineEnd(end)) {
+			this.AddToken(VBSTokenKind.Unknown, start, start + 1);
+			return;
+		}
+
+		this.AddToken(VBSTokenKind.Date, start, end + 1, this.text.substring(start + 1, end));
+	}
+
+	private ReadIdentifier() {
+		let start = this.index;
+		let end = start + 1;
+
+		while(end < this.text.length && this.IsIdentifierPart(this.text[end]))
+			end++;
+
+		// "Rem" starts a comment just like the apostrophe does
+		if(this.text.substring(start, end).toLowerCase() == "rem") {
+			this.ReadComment(start);
+			return;
+		}
+
+		this.AddToken(VBSTokenKind.Identifier, start, end);
+	}
+
+	private ReadBracketedIdentifier() {
+		let start = this.index;
+		let end = start + 1;
+
+		while(!this.IsLineEnd(end) && this.text[end] != "]")
+			end++;
+
+		if(this.IsLineEnd(end)) {
+			this.AddToken(VBSTokenKind.Unknown, start, start + 1);
+			return;
+		}
+
+		this.AddToken(VBSTokenKind.Identifier, start, end + 1, this.text.substring(start + 1, end));
+	}
+
+	private ReadNumber() {
+		let match = /^(&[hH][0-9a-fA-F]+&?|&[oO]?[0-7]+&?|(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?)/.exec(this.text.substr(this.index, 64));
+		this.AddToken(VBSTokenKind.Number, this.index, this.index + match[0].length);
+	}
+}
@@ -0,0 +1,1361 @@
+import * as ls from 'vscode-languageserver';
+import { VBSToken, VBSTokenKind, IsKeyword } from "./VBSToken";
+import { VBSLexer } from "./VBSLexer";
+import * as ast from "./VBSSyntaxTree";
+
+class BlockEnd {
+	kind: string;
+	tokenCount: number;
+	range: ls.Range;
+}
+
+// text of the statement which closes a block and of the statement which opens it
+const blockEndTexts: { [kind: string]: string; } = {
+	"class": "End Class",
+	"sub": "End Sub",
+	"function": "End Function",
+	"property": "End Property",
+	"if": "End If",
+	"select": "End Select",
+	"with": "End With",
+	"for": "Next",
+	"do": "Loop",
+	"while": "Wend",
+	"else": "Else",
+	"elseif": "ElseIf",
+	"case": "Case"
+};
+
+const blockStartTexts: { [kind: string]: string; } = {
+	"class": "Class",
+	"sub": "Sub",
+	"function": "Function",
+	"property": "Property",
+	"if": "If",
+	"select": "Select Case",
+	"with": "With",
+	"for": "For",
+	"do": "Do",
+	"while": "While",
+	"else": "If",
+	"elseif": "If",
+	"case": "Select Case"
+};
+
+// binary operators ordered from the lowest to the highest precedence
+const binaryOperatorLevels: string[][] = [
+	[ "imp" ],
+	[ "eqv" ],
+	[ "xor" ],
+	[ "or" ],
+	[ "and" ],
+	null, // "Not" is handled in between
+	[ "=", "<>", "<", ">", "<=", ">=", "is" ],
+	[ "&" ],
+	[ "+", "-" ],
+	[ "mod" ],
+	[ "\\" ],
+	[ "*", "/" ]
+];
+
+// "<%= value %>" of ASP pages reaches the parser as "= value" - elsewhere it is an error
+export function ParseDocument(text: string, allowOutputStatements: boolean = false): ast.VBSProgram {
+	let parser = new VBSParser(text);
+	parser.allowOutputStatements = allowOutputStatements;
+	return parser.Parse();
+}
+
+// Every instance parses exactly one document so that a broken document
+// cannot influence the result of the next one.
+export class VBSParser {
+	public allowOutputStatements: boolean = false;
+
+	private text: string;
+	private tokens: VBSToken[] = [];
+	private index: number = 0;
+	private lastToken: VBSToken = null;
+	private program: ast.VBSProgram = null;
+	private openBlocks: string[] = [];
+	private singleLineDepth: number = 0;
+	private statementHasError: boolean = false;
+
+	constructor(text: string) {
+		this.text = text;
+	}
+
+	public Parse(): ast.VBSProgram {
+		let allTokens = new VBSLexer(this.text).Tokenize();
+
+		this.program = new ast.VBSProgram();
+		this.program.tokens = allTokens;
+		this.program.comments = allTokens.filter(function(token) { return token.kind == VBSTokenKind.Comment; });
+		this.tokens = allTokens.filter(function(token) { return token.kind != VBSTokenKind.Comment; });
+		this.index = 0;
+		this.lastToken = null;
+		this.openBlocks = [];
+
+		this.program.statements = this.ParseBlock("program");
+
+		let eof = this.tokens[this.tokens.length - 1];
+		this.program.range = ls.Range.create(ls.Position.create(0, 0), eof.range.end);
+
+		SetParents(this.program);
+
+		return this.program;
+	}
+
+	// -----------------------------------------------------------------------
+	// Token handling
+
+	private Current(): VBSToken {
+		return this.tokens[this.index];
+	}
+
+	private Peek(offset: number): VBSToken {
+		let index = Math.min(this.index + offset, this.tokens.length - 1);
+		return this.tokens[index];
+	}
+
+	private Advance(): VBSToken {
+		let token = this.Current();
+
+		if(token.kind != VBSTokenKind.EndOfFile)
+			this.index++;
+
+		if(token.kind != VBSTokenKind.NewLine && token.kind != VBSTokenKind.Colon && token.kind != VBSTokenKind.EndOfFile)
+			this.lastToken = token;
+
+		return token;
+	}
+
+	private Accept(keyword: string): VBSToken {
+		if(this.Current().Is(keyword))
+			return this.Advance();
+
+		return null;
+	}
+
+	private AcceptOperator(operator: string): VBSToken {
+		if(this.Current().IsOperator(operator))
+			return this.Advance();
+
+		return null;
+	}
+
+	private Expect(keyword: string, text: string): VBSToken {
+		let token = this.Accept(keyword);
+
+		if(token == null)
+			this.Error(this.Current().range, "'" + text + "' expected!");
+
+		return token;
+	}
+
+	private ExpectOperator(operator: string): VBSToken {
+		let token = this.AcceptOperator(operator);
+
+		if(token == null)
+			this.Error(this.Current().range, "'" + operator + "' expected!");
+
+		return token;
+	}
+
+	private ExpectName(): VBSToken {
+		let token = this.Current();
+
+		if(token.kind == VBSTokenKind.Identifier && (!IsKeyword(token.text) || token.text[0] == "["))
+			return this.Advance();
+
+		this.Error(token.range, "Identifier expected!");
+		return null;
+	}
+
+	private IsStatementEnd(): boolean {
+		let token = this.Current();
+		return token.IsStatementEnd() || (this.singleLineDepth > 0 && token.Is("else"));
+	}
+
+	private SkipStatementSeparators() {
+		while(this.Current().kind == VBSTokenKind.NewLine || this.Current().kind == VBSTokenKind.Colon)
+			this.Advance();
+	}
+
+	private SkipToStatementEnd() {
+		while(!this.IsStatementEnd())
+			this.Advance();
+	}
+
+	private ExpectStatementEnd() {
+		if(this.IsStatementEnd())
+			return;
+
+		this.Error(this.Current().range, "End of statement expected!");
+		this.SkipToStatementEnd();
+	}
+
+	// -----------------------------------------------------------------------
+	// Diagnostics and ranges - the nodes share the positions of their tokens, so moving the
+	// tokens moves the syntax tree as well (see VBSIncrementalParser)
+
+	private Error(range: ls.Range, message: string, code: string = "syntax-error") {
+		// report only the first syntax error of a statement, the rest are most likely follow-up errors
+		if(this.statementHasError)
+			return;
+
+		this.statementHasError = true;
+		this.AddDiagnostic(range, message, code);
+	}
+
+	private AddDiagnostic(range: ls.Range, message: string, code: string) {
+		this.program.diagnostics.push(ls.Diagnostic.create(range, message, ls.DiagnosticSeverity.Error, code, "vbs"));
+	}
+
+	private StartPosition(): ls.Position {
+		return this.Current().range.start;
+	}
+
+	private EndPosition(): ls.Position {
+		if(this.lastToken == null)
+			return ls.Position.create(0, 0);
+
+		return this.lastToken.range.end;
+	}
+
+	private Finish<T extends ast.VBSNode>(node: T, start: ls.Position): T {
+		let end = this.EndPosition();
+
+		// nothing has been consumed - the node is empty
+		if(end.line < start.line || (end.line == start.line && end.character < start.character))
+			end = start;
+
+		node.range = ls.Range.create(start, end);
+		return node;
+	}
+
+	private RangeOfTokens(first: VBSToken, last: VBSToken): ls.Range {
+		return ls.Range.create(first.range.start, last.range.end);
+	}
+
+	// the "(" which belongs to the ")" at the index
+	private FindOpenParen(closeIndex: number): VBSToken {
+		let depth = 0;
+
+		for (let i = closeIndex; i >= 0; i--) {
+			if(this.tokens[i].IsOperator(")")) {
+				depth++;
+			} else if(this.tokens[i].IsOperator("(")) {
+				depth--;
+
+				if(depth == 0)
+					return this.tokens[i];
+			}
+		}
+
+		return this.tokens[closeIndex];
+	}
+
+	// -----------------------------------------------------------------------
+	// Blocks
+
+	private PeekBlockEnd(): BlockEnd {
+		let token = this.Current();
+
+		if(token.kind != VBSTokenKind.Identifier)
+			return null;
+
+		if(token.Is("end")) {
+			let next = this.Peek(1);
+			let kinds = [ "class", "sub", "function", "property", "if", "select", "with" ];
+
+			for (let i = 0; i < kinds.length; i++) {
+				if(next.Is(kinds[i]))
+					return { kind: kinds[i], tokenCount: 2, range: this.RangeOfTokens(token, next) };
+			}
+
+			return null;
+		}
+
+		let singleTokenEnds: { [keyword: string]: string; } = {
+			"next": "for",
+			"loop": "do",
+			"wend": "while",
+			"else": "else",
+			"elseif": "elseif",
+			"case": "case"
+		};
+
+		let kind = singleTokenEnds[token.text.toLowerCase()];
+
+		if(kind == null)
+			return null;
+
+		return { kind: kind, tokenCount: 1, range: token.range };
+	}
+
+	private EndBelongsTo(endKind: string, blockKind: string): boolean {
+		if(endKind == blockKind)
+			return true;
+
+		if(IsProcedureKind(endKind) && IsProcedureKind(blockKind) && endKind != "property" && blockKind != "property")
+			return true;
+
+		if(blockKind == "if" && (endKind == "else" || endKind == "elseif"))
+			return true;
+
+		if(blockKind == "select" && endKind == "case")
+			return true;
+
+		return false;
+	}
+
+	private IsClosingOpenBlock(endKind: string): boolean {
+		for (let i = 0; i < this.openBlocks.length; i++) {
+			if(this.EndBelongsTo(endKind, this.openBlocks[i]))
+				return true;
+		}
+
+		return false;
+	}
+
+	private PeekDeclaration(): string {
+		let offset = 0;
+
+		while(this.Peek(offset).Is("public") || this.Peek(offset).Is("private") || this.Peek(offset).Is("default"))
+			offset++;
+
+		let token = this.Peek(offset);
+
+		if(token.Is("class") || token.Is("sub") || token.Is("function"))
+			return token.text.toLowerCase();
+
+		if(token.Is("property") && (this.Peek(offset + 1).Is("get") || this.Peek(offset + 1).Is("let") || this.Peek(offset + 1).Is("set")))
+			return "property";
+
+		return null;
+	}
+
+	private IsMisplacedDeclaration(blockKind: string): boolean {
+		let declaration = this.PeekDeclaration();
+
+		if(declaration == null || blockKind == "program")
+			return false;
+
+		if(blockKind == "class")
+			return declaration == "class";
+
+		// procedures and classes cannot be declared inside of procedures or control flow blocks
+		return true;
+	}
+
+	private ParseBlock(blockKind: string): ast.VBSStatement[] {
+		let statements: ast.VBSStatement[] = [];
+
+		while(true) {
+			this.SkipStatementSeparators();
+
+			if(this.Current().kind == VBSTokenKind.EndOfFile)
+				break;
+
+			let blockEnd = this.PeekBlockEnd();
+
+			if(blockEnd != null) {
+				if(this.EndBelongsTo(blockEnd.kind, blockKind))
+					break;
+
+				// an outer block is closed - the current one misses its end
+				if(this.IsClosingOpenBlock(blockEnd.kind))
+					break;
+
+				this.AddDiagnostic(blockEnd.range, "'" + blockEndTexts[blockEnd.kind] + "' without '" + blockStartTexts[blockEnd.kind] + "'!", "unexpected-end");
+				this.statementHasError = true;
+				this.SkipToStatementEnd();
+				this.statementHasError = false;
+				continue;
+			}
+
+			if(this.IsMisplacedDeclaration(blockKind))
+				break;
+
+			let startIndex = this.index;
+			let statement = this.ParseStatement();
+
+			if(statement != null)
+				statements.push(statement);
+
+			// make sure that we never get stuck at a token we do not understand
+			if(this.index == startIndex && !this.IsStatementEnd()) {
+				this.Error(this.Current().range, "Unexpected '" + this.Current().text + "'!");
+				this.Advance();
+			}
+		}
+
+		return statements;
+	}
+
+	private ParseBody(node: ast.VBSBlockStatement, blockKind: string) {
+		this.openBlocks.push(blockKind);
+		node.body = this.ParseBlock(blockKind);
+		this.openBlocks.pop();
+	}
+
+	private ParseBlockEnd(node: ast.VBSBlockStatement, blockKind: string): boolean {
+		let blockEnd = this.PeekBlockEnd();
+
+		if(blockEnd == null || !this.EndBelongsTo(blockEnd.kind, blockKind) || blockEnd.kind == "else" || blockEnd.kind == "elseif" || blockEnd.kind == "case") {
+			this.AddDiagnostic(node.keywordRange, "'" + blockEndTexts[blockKind] + "' expected!", "missing-end");
+			return false;
+		}
+
+		this.statementHasError = false;
+
+		if(blockEnd.kind != blockKind) {
+			// show the user the error and then go on like it was the right type!
+			this.AddDiagnostic(blockEnd.range, "'" + blockEndTexts[blockKind] + "' expected!", "mismatched-end");
+		}
+
+		for (let i = 0; i < blockEnd.tokenCount; i++)
+			this.Advance();
+
+		node.endRange = blockEnd.range;
+
+		return true;
+	}
+
+	// -----------------------------------------------------------------------
+	// Statements
+
+	private ParseStatement(): ast.VBSStatement {
+		this.statementHasError = false;
+
+		let token = this.Current();
+		let statement: ast.VBSStatement = null;
+
+		if(token.IsOperator("=") && this.allowOutputStatements) {
+			statement = this.ParseOutput();
+			this.ExpectStatementEnd();
+			return statement;
+		}
+
+		switch(token.kind == VBSTokenKind.Identifier ? token.text.toLowerCase() : "") {
+			case "option":
+				statement = this.ParseOptionExplicit();
+				break;
+			case "class":
+				statement = this.ParseClass();
+				break;
+			case "sub":
+			case "function":
+				statement = this.ParseMethod(this.StartPosition(), "", false);
+				break;
+			case "property":
+				statement = this.ParseProperty(this.StartPosition(), "", false);
+				break;
+			case "public":
+			case "private":
+				statement = this.ParseVisibilityStatement();
+				break;
+			case "dim":
+				statement = this.ParseVariableDeclaration();
+				break;
+			case "redim":
+				statement = this.ParseReDim();
+				break;
+			case "const":
+				statement = this.ParseConst(this.StartPosition(), "");
+				break;
+			case "if":
+				statement = this.ParseIf();
+				break;
+			case "for":
+				statement = this.ParseFor();
+				break;
+			case "do":
+				statement = this.ParseDo();
+				break;
+			case "while":
+				statement = this.ParseWhile();
+				break;
+			case "select":
+				statement = this.ParseSelect();
+				break;
+			case "with":
+				statement = this.ParseWith();
+				break;
+			case "set":
+			case "let":
+				statement = this.ParseAssignment();
+				break;
+			case "call":
+				statement = this.ParseCall();
+				break;
+			case "exit":
+				statement = this.ParseExit();
+				break;
+			case "on":
+				statement = this.ParseOnError();
+				break;
+			case "erase":
+				statement = this.ParseErase();
+				break;
+			case "stop":
+				// a breakpoint for the script debugger - nothing to remember
+				this.Advance();
+				break;
+			default:
+				statement = this.ParseExpressionStatement();
+				break;
+		}
+
+		// a block without its end stops right in front of the next statement
+		if(!(statement instanceof ast.VBSBlockStatement) || statement.endRange != null)
+			this.ExpectStatementEnd();
+
+		return statement;
+	}
+
+	private ParseOutput(): ast.VBSStatement {
+		let start = this.StartPosition();
+		let node = new ast.VBSOutputStatement();
+		this.Advance();
+		node.expression = this.ParseExpression();
+		return this.Finish(node, start);
+	}
+
+	private ParseOptionExplicit(): ast.VBSStatement {
+		let start = this.StartPosition();
+		this.Advance();
+		this.Expect("explicit", "Explicit");
+		return this.Finish(new ast.VBSOptionExplicitStatement(), start);
+	}
+
+	private ParseClass(): ast.VBSStatement {
+		let start = this.StartPosition();
+		let node = new ast.VBSClassDeclaration();
+		node.keywordRange = this.Advance().range;
+
+		let name = this.ExpectName();
+
+		if(name != null) {
+			node.name = name.value;
+			node.nameRange = name.range;
+		}
+
+		this.ExpectStatementEnd();
+		this.ParseBody(node, "class");
+		this.ParseBlockEnd(node, "class");
+
+		return this.Finish(node, start);
+	}
+
+	private ParseVisibilityStatement(): ast.VBSStatement {
+		let start = this.StartPosition();
+		let visibilityToken = this.Current();
+		let next = this.Peek(1);
+
+		if(next.Is("default") || next.Is("sub") || next.Is("function") || next.Is("property")) {
+			this.Advance();
+			let isDefault = this.Accept("default") != null;
+
+			if(this.Current().Is("property"))
+				return this.ParseProperty(start, visibilityToken.text, isDefault);
+
+			if(this.Current().Is("sub") || this.Current().Is("function"))
+				return this.ParseMethod(start, visibilityToken.text, isDefault);
+
+			this.Error(this.Current().range, "'Sub', 'Function' or 'Property' expected!");
+			return null;
+		}
+
+		if(next.Is("const")) {
+			this.Advance();
+			return this.ParseConst(start, visibilityToken.text);
+		}
+
+		return this.ParseVariableDeclaration();
+	}
+
+	private ParseProcedureHeader(node: ast.VBSProcedureDeclaration) {
+		let name = this.ExpectName();
+
+		if(name != null) {
+			node.name = name.value;
+			node.nameRange = name.range;
+		}
+
+		let openParen = this.AcceptOperator("(");
+
+		if(openParen == null)
+			return;
+
+		while(!this.IsStatementEnd() && !this.Current().IsOperator(")")) {
+			let parameter = this.ParseParameter();
+
+			if(parameter == null)
+				break;
+
+			node.parameters.push(parameter);
+
+			if(this.AcceptOperator(",") == null)
+				break;
+		}
+
+		let closeParen = this.ExpectOperator(")");
+
+		if(closeParen != null) {
+			node.argsText = this.text.substring(openParen.end, closeParen.start);
+			node.argsRange = ls.Range.create(openParen.range.end, closeParen.range.start);
+		}
+	}
+
+	private ParseParameter(): ast.VBSParameter {
+		let start = this.StartPosition();
+		let parameter = new ast.VBSParameter();
+
+		if(this.Current().Is("byval") || this.Current().Is("byref"))
+			parameter.modifier = this.Advance().text;
+
+		let name = this.ExpectName();
+
+		if(name == null)
+			return null;
+
+		parameter.name = name.value;
+		parameter.nameRange = name.range;
+
+		if(this.AcceptOperator("(") != null) {
+			parameter.isArray = true;
+			this.ExpectOperator(")");
+		}
+
+		return this.Finish(parameter, start);
+	}
+
+	private ParseMethod(start: ls.Position, visibility: string, isDefault: boolean): ast.VBSStatement {
+		let node = new ast.VBSMethodDeclaration();
+		node.visibility = visibility;
+		node.isDefault = isDefault;
+
+		let keyword = this.Advance();
+		node.methodType = keyword.text;
+		node.keywordRange = keyword.range;
+
+		this.ParseProcedureHeader(node);
+		this.ExpectStatementEnd();
+
+		let blockKind = keyword.text.toLowerCase();
+		this.ParseBody(node, blockKind);
+		this.ParseBlockEnd(node, blockKind);
+
+		return this.Finish(node, start);
+	}
+
+	private ParseProperty(start: ls.Position, visibility: string, isDefault: boolean): ast.VBSStatement {
+		let node = new ast.VBSPropertyDeclaration();
+		node.visibility = visibility;
+		node.isDefault = isDefault;
+
+		let keyword = this.Advance();
+		let accessor = this.Current();
+
+		if(accessor.Is("get") || accessor.Is("let") || accessor.Is("set")) {
+			node.accessor = this.Advance().text;
+			node.keywordRange = this.RangeOfTokens(keyword, accessor);
+		} else {
+			node.keywordRange = keyword.range;
+			this.Error(accessor.range, "'Get', 'Let' or 'Set' expected!");
+		}
+
+		this.ParseProcedureHeader(node);
+		this.ExpectStatementEnd();
+		this.ParseBody(node, "property");
+		this.ParseBlockEnd(node, "property");
+
+		return this.Finish(node, start);
+	}
+
+	private ParseVariableDeclarator(): ast.VBSVariableDeclarator {
+		let start = this.StartPosition();
+		let name = this.ExpectName();
+
+		if(name == null)
+			return null;
+
+		let declarator = new ast.VBSVariableDeclarator();
+		declarator.name = name.value;
+		declarator.nameRange = name.range;
+
+		if(this.AcceptOperator("(") != null) {
+			declarator.isArray = true;
+
+			while(!this.IsStatementEnd() && !this.Current().IsOperator(")")) {
+				declarator.bounds.push(this.ParseExpression());
+
+				if(this.AcceptOperator(",") == null)
+					break;
+			}
+
+			this.ExpectOperator(")");
+		}
+
+		return this.Finish(declarator, start);
+	}
+
+	private ParseVariableDeclaration(): ast.VBSStatement {
+		let start = this.StartPosition();
+		let node = new ast.VBSVariableDeclaration();
+		let keyword = this.Advance();
+		node.keyword = keyword.text;
+		node.keywordRange = keyword.range;
+
+		do {
+			let declarator = this.ParseVariableDeclarator();
+
+			if(declarator == null)
+				break;
+
+			node.declarators.push(declarator);
+		} while(this.AcceptOperator(",") != null);
+
+		return this.Finish(node, start);
+	}
+
+	private ParseReDim(): ast.VBSStatement {
+		let start = this.StartPosition();
+		let node = new ast.VBSReDimStatement();
+		this.Advance();
+		node.preserve = this.Accept("preserve") != null;
+
+		do {
+			let declarator = this.ParseVariableDeclarator();
+
+			if(declarator == null)
+				break;
+
+			node.declarators.push(declarator);
+		} while(this.AcceptOperator(",") != null);
+
+		return this.Finish(node, start);
+	}
+
+	private ParseConst(start: ls.Position, visibility: string): ast.VBSStatement {
+		let node = new ast.VBSConstDeclaration();
+		node.visibility = visibility;
+		this.Advance();
+
+		do {
+			let declaratorStart = this.StartPosition();
+			let name = this.ExpectName();
+
+			if(name == null)
+				break;
+
+			let declarator = new ast.VBSConstDeclarator();
+			declarator.name = name.value;
+			declarator.nameRange = name.range;
+
+			if(this.ExpectOperator("=") != null) {
+				let valueStart = this.Current().start;
+				declarator.value = this.ParseExpression();
+				declarator.valueText = this.text.substring(valueStart, Math.max(valueStart, this.lastToken.end));
+			}
+
+			node.declarators.push(this.Finish(declarator, declaratorStart));
+		} while(this.AcceptOperator(",") != null);
+
+		return this.Finish(node, start);
+	}
+
+	private ParseIf(): ast.VBSStatement {
+		let start = this.StartPosition();
+		let node = new ast.VBSIfStatement();
+		node.keywordRange = this.Advance().range;
+		node.condition = this.ParseExpression();
+		this.Expect("then", "Then");
+
+		if(!this.Current().IsStatementEnd() || this.Current().kind == VBSTokenKind.Colon) {
+			return this.ParseSingleLineIf(node, start);
+		}
+
+		this.openBlocks.push("if");
+		node.body = this.ParseBlock("if");
+
+		while(this.Current().Is("elseif")) {
+			this.statementHasError = false;
+			let clauseStart = this.StartPosition();
+			let clause = new ast.VBSElseIfClause();
+			clause.keywordRange = this.Advance().range;
+			clause.condition = this.ParseExpression();
+			this.Expect("then", "Then");
+			this.ExpectStatementEnd();
+			clause.body = this.ParseBlock("if");
+			node.elseIfs.push(this.Finish(clause, clauseStart));
+		}
+
+		if(this.Current().Is("else")) {
+			this.statementHasError = false;
+			node.elseRange = this.Advance().range;
+			this.ExpectStatementEnd();
+			node.elseBody = this.ParseBlock("if");
+		}
+
+		this.openBlocks.pop();
+		this.ParseBlockEnd(node, "if");
+
+		return this.Finish(node, start);
+	}
+
+	private ParseSingleLineIf(node: ast.VBSIfStatement, start: ls.Position): ast.VBSStatement {
+		node.isSingleLine = true;
+		this.singleLineDepth++;
+
+		node.body = this.ParseSingleLineStatements();
+
+		if(this.Current().Is("else")) {
+			node.elseRange = this.Advance().range;
+			node.elseBody = this.ParseSingleLineStatements();
+		}
+
+		this.singleLineDepth--;
+
+		// a trailing "End If" is tolerated by the interpreter
+		if(this.Current().Is("end") && this.Peek(1).Is("if")) {
+			let endToken = this.Advance();
+			node.endRange = this.RangeOfTokens(endToken, this.Advance());
+		}
+
+		return this.Finish(node, start);
+	}
+
+	private ParseSingleLineStatements(): ast.VBSStatement[] {
+		let statements: ast.VBSStatement[] = [];
+
+		while(true) {
+			while(this.Current().kind == VBSTokenKind.Colon)
+				this.Advance();
+
+			if(this.IsStatementEnd() || (this.Current().Is("end") && this.Peek(1).Is("if")))
+				break;
+
+			let startIndex = this.index;
+			let statement = this.ParseStatement();
+
+			if(statement != null)
+				statements.push(statement);
+
+			if(this.index == startIndex)
+				break;
+		}
+
+		return statements;
+	}
+
+	private ParseFor(): ast.VBSStatement {
+		let start = this.StartPosition();
+		let keyword = this.Advance();
+
+		if(this.Current().Is("each")) {
+			let eachNode = new ast.VBSForEachStatement();
+			eachNode.keywordRange = this.RangeOfTokens(keyword, this.Advance());
+			eachNode.variable = this.ParsePostfixExpression();
+			this.Expect("in", "In");
+			eachNode.collection = this.ParseExpression();
+			this.ExpectStatementEnd();
+			this.ParseBody(eachNode, "for");
+			this.ParseNext(eachNode);
+
+			return this.Finish(eachNode, start);
+		}
+
+		let node = new ast.VBSForStatement();
+		node.keywordRange = keyword.range;
+		node.variable = this.ParsePostfixExpression();
+
+		if(this.ExpectOperator("=") != null) {
+			node.from = this.ParseExpression();
+
+			if(this.Expect("to", "To") != null)
+				node.to = this.ParseExpression();
+
+			if(this.Accept("step") != null)
+				node.step = this.ParseExpression();
+		}
+
+		this.ExpectStatementEnd();
+		this.ParseBody(node, "for");
+		this.ParseNext(node);
+
+		return this.Finish(node, start);
+	}
+
+	private ParseNext(node: ast.VBSBlockStatement) {
+		if(!this.ParseBlockEnd(node, "for"))
+			return;
+
+		// "Next i"
+		if(this.Current().kind == VBSTokenKind.Identifier && !this.IsStatementEnd())
+			this.Advance();
+	}
+
+	private ParseDoCondition(node: ast.VBSDoStatement): boolean {
+		if(!this.Current().Is("while") && !this.Current().Is("until"))
+			return false;
+
+		node.conditionKind = this.Advance().text;
+		node.condition = this.ParseExpression();
+
+		return true;
+	}
+
+	private ParseDo(): ast.VBSStatement {
+		let start = this.StartPosition();
+		let node = new ast.VBSDoStatement();
+		node.keywordRange = this.Advance().range;
+
+		this.ParseDoCondition(node);
+		this.ExpectStatementEnd();
+		this.ParseBody(node, "do");
+
+		if(this.ParseBlockEnd(node, "do") && node.condition == null)
+			node.isPostCondition = this.ParseDoCondition(node);
+
+		return this.Finish(node, start);
+	}
+
+	private ParseWhile(): ast.VBSStatement {
+		let start = this.StartPosition();
+		let node = new ast.VBSWhileStatement();
+		node.keywordRange = this.Advance().range;
+		node.condition = this.ParseExpression();
+		this.ExpectStatementEnd();
+		this.ParseBody(node, "while");
+		this.ParseBlockEnd(node, "while");
+
+		return this.Finish(node, start);
+	}
+
+	private ParseSelect(): ast.VBSStatement {
+		let start = this.StartPosition();
+		let node = new ast.VBSSelectStatement();
+		let keyword = this.Advance();
+		let caseToken = this.Expect("case", "Case");
+		node.keywordRange = caseToken != null ? this.RangeOfTokens(keyword, caseToken) : keyword.range;
+		node.expression = this.ParseExpression();
+		this.ExpectStatementEnd();
+
+		this.openBlocks.push("select");
+		// there should not be anything in front of the first "Case"
+		node.body = this.ParseBlock("select");
+
+		while(this.Current().Is("case")) {
+			this.statementHasError = false;
+			let clauseStart = this.StartPosition();
+			let clause = new ast.VBSCaseClause();
+			let caseKeyword = this.Advance();
+
+			if(this.Current().Is("else")) {
+				clause.isElse = true;
+				clause.keywordRange = this.RangeOfTokens(caseKeyword, this.Advance());
+			} else {
+				clause.keywordRange = caseKeyword.range;
+
+				do {
+					clause.values.push(this.ParseExpression());
+				} while(this.AcceptOperator(",") != null);
+			}
+
+			this.ExpectStatementEnd();
+			clause.body = this.ParseBlock("select");
+			node.cases.push(this.Finish(clause, clauseStart));
+		}
+
+		this.openBlocks.pop();
+		this.ParseBlockEnd(node, "select");
+
+		return this.Finish(node, start);
+	}
+
+	private ParseWith(): ast.VBSStatement {
+		let start = this.StartPosition();
+		let node = new ast.VBSWithStatement();
+		node.keywordRange = this.Advance().range;
+		node.object = this.ParseExpression();
+		this.ExpectStatementEnd();
+		this.ParseBody(node, "with");
+		this.ParseBlockEnd(node, "with");
+
+		return this.Finish(node, start);
+	}
+
+	private ParseAssignment(): ast.VBSStatement {
+		let start = this.StartPosition();
+		let node = new ast.VBSAssignmentStatement();
+		node.isSet = this.Advance().Is("set");
+		node.target = this.ParsePostfixExpression();
+
+		if(this.ExpectOperator("=") != null)
+			node.value = this.ParseExpression();
+
+		return this.Finish(node, start);
+	}
+
+	private ParseCall(): ast.VBSStatement {
+		let start = this.StartPosition();
+		let node = new ast.VBSCallStatement();
+		this.Advance();
+		node.hasCallKeyword = true;
+		node.callee = this.ParsePostfixExpression();
+
+		return this.Finish(node, start);
+	}
+
+	private ParseExit(): ast.VBSStatement {
+		let start = this.StartPosition();
+		let node = new ast.VBSExitStatement();
+		this.Advance();
+
+		let kind = this.Current();
+
+		if(kind.Is("sub") || kind.Is("function") || kind.Is("property") || kind.Is("do") || kind.Is("for"))
+			node.exitKind = this.Advance().text;
+		else
+			this.Error(kind.range, "'Sub', 'Function', 'Property', 'Do' or 'For' expected!");
+
+		return this.Finish(node, start);
+	}
+
+	private ParseOnError(): ast.VBSStatement {
+		let start = this.StartPosition();
+		let node = new ast.VBSOnErrorStatement();
+		this.Advance();
+
+		if(this.Expect("error", "Error") == null)
+			return this.Finish(node, start);
+
+		if(this.Accept("resume") != null) {
+			this.Expect("next", "Next");
+			node.resumeNext = true;
+		} else if(this.Accept("goto") != null) {
+			if(this.Current().kind == VBSTokenKind.Number)
+				this.Advance();
+			else
+				this.Error(this.Current().range, "'0' expected!");
+		} else {
+			this.Error(this.Current().range, "'Resume Next' or 'GoTo 0' expected!");
+		}
+
+		return this.Finish(node, start);
+	}
+
+	private ParseErase(): ast.VBSStatement {
+		let start = this.StartPosition();
+		let node = new ast.VBSEraseStatement();
+		this.Advance();
+
+		do {
+			node.targets.push(this.ParsePostfixExpression());
+		} while(this.AcceptOperator(",") != null);
+
+		return this.Finish(node, start);
+	}
+
+	private ParseExpressionStatement(): ast.VBSStatement {
+		let start = this.StartPosition();
+		let target = this.ParsePostfixExpression();
+
+		if(target instanceof ast.VBSErrorExpression) {
+			this.SkipToStatementEnd();
+			return null;
+		}
+
+		if(this.AcceptOperator("=") != null) {
+			let assignment = new ast.VBSAssignmentStatement();
+			assignment.target = target;
+			assignment.value = this.ParseExpression();
+			return this.Finish(assignment, start);
+		}
+
+		let node = new ast.VBSCallStatement();
+		node.callee = target;
+
+		if(this.IsStatementEnd())
+			return this.Finish(node, start);
+
+		// "Foo (a), b" has been read as "Foo(a)" - the parentheses belong to the first argument
+		if(target instanceof ast.VBSCallExpression && target.args.length == 1 && this.Current().IsOperator(",")) {
+			let parenthesized = new ast.VBSParenthesizedExpression();
+			parenthesized.expression = target.args[0];
+			parenthesized.range = ls.Range.create(this.FindOpenParen(this.index - 1).range.start, target.range.end);
+			node.callee = target.callee;
+			node.args.push(parenthesized);
+			this.Advance();
+		}
+
+		while(!this.IsStatementEnd()) {
+			if(this.Current().IsOperator(","))
+				node.args.push(null);
+			else
+				node.args.push(this.ParseExpression());
+
+			if(this.AcceptOperator(",") == null)
+				break;
+		}
+
+		return this.Finish(node, start);
+	}
+
+	// -----------------------------------------------------------------------
+	// Expressions
+
+	private ParseExpression(): ast.VBSExpression {
+		return this.ParseBinary(0);
+	}
+
+	private ParseBinary(level: number): ast.VBSExpression {
+		if(level >= binaryOperatorLevels.length)
+			return this.ParseUnary();
+
+		let operators = binaryOperatorLevels[level];
+
+		if(operators == null)
+			return this.ParseNot(level);
+
+		let start = this.StartPosition();
+		let left = this.ParseBinary(level + 1);
+
+		while(true) {
+			let operator = this.MatchOperator(operators);
+
+			if(operator == null)
+				break;
+
+			let node = new ast.VBSBinaryExpression();
+			node.operator = this.Advance().text;
+			node.left = left;
+			node.right = this.ParseBinary(level + 1);
+			left = this.Finish(node, start);
+		}
+
+		return left;
+	}
+
+	private MatchOperator(operators: string[]): string {
+		let token = this.Current();
+
+		for (let i = 0; i < operators.length; i++) {
+			if(token.IsOperator(operators[i]) || token.Is(operators[i]))
+				return operators[i];
+		}
+
+		return null;
+	}
+
+	private ParseNot(level: number): ast.VBSExpression {
+		if(!this.Current().Is("not"))
+			return this.ParseBinary(level + 1);
+
+		let start = this.StartPosition();
+		let node = new ast.VBSUnaryExpression();
+		node.operator = this.Advance().text;
+		node.operand = this.ParseNot(level);
+
+		return this.Finish(node, start);
+	}
+
+	private ParseUnary(): ast.VBSExpression {
+		if(!this.Current().IsOperator("-") && !this.Current().IsOperator("+"))
+			return this.ParseExponent();
+
+		let start = this.StartPosition();
+		let node = new ast.VBSUnaryExpression();
+		node.operator = this.Advance().text;
+		node.operand = this.ParseUnary();
+
+		return this.Finish(node, start);
+	}
+
+	private ParseExponent(): ast.VBSExpression {
+		let start = this.StartPosition();
+		let left = this.ParsePostfixExpression();
+
+		while(this.Current().IsOperator("^")) {
+			let node = new ast.VBSBinaryExpression();
+			node.operator = this.Advance().text;
+			node.left = left;
+			node.right = this.Current().IsOperator("-") ? this.ParseUnary() : this.ParsePostfixExpression();
+			left = this.Finish(node, start);
+		}
+
+		return left;
+	}
+
+	private ParsePostfixExpression(): ast.VBSExpression {
+		let start = this.StartPosition();
+		let expression = this.ParsePrimary();
+
+		if(expression instanceof ast.VBSErrorExpression)
+			return expression;
+
+		while(true) {
+			let token = this.Current();
+
+			if(token.IsOperator(".") && this.lastToken != null && token.start == this.lastToken.end) {
+				this.Advance();
+				let member = new ast.VBSMemberExpression();
+				member.object = expression;
+				this.ParseMemberName(member);
+				expression = this.Finish(member, start);
+			} else if(token.IsOperator("(")) {
+				let call = new ast.VBSCallExpression();
+				call.callee = expression;
+				this.ParseArguments(call);
+				expression = this.Finish(call, start);
+			} else {
+				break;
+			}
+		}
+
+		return expression;
+	}
+
+	private ParseMemberName(member: ast.VBSMemberExpression) {
+		// every word is allowed as member name - even keywords
+		let name = this.Current();
+
+		if(name.kind != VBSTokenKind.Identifier) {
+			this.Error(name.range, "Identifier expected!");
+			return;
+		}
+
+		this.Advance();
+		member.name = name.value;
+		member.nameRange = name.range;
+	}
+
+	private ParseArguments(call: ast.VBSCallExpression) {
+		let openParen = this.Advance();
+
+		while(!this.IsStatementEnd() && !this.Current().IsOperator(")")) {
+			if(this.Current().IsOperator(","))
+				call.args.push(null);
+			else
+				call.args.push(this.ParseExpression());
+
+			if(this.AcceptOperator(",") == null)
+				break;
+
+			// "Foo(a, )"
+			if(this.Current().IsOperator(")"))
+				call.args.push(null);
+		}
+
+		let closeParen = this.ExpectOperator(")");
+		let end = closeParen != null ? closeParen.range.start : this.EndPosition();
+		call.argsRange = ls.Range.create(openParen.range.end, end);
+	}
+
+	private ParsePrimary(): ast.VBSExpression {
+		let start = this.StartPosition();
+		let token = this.Current();
+
+		switch(token.kind) {
+			case VBSTokenKind.Number:
+				return this.ParseLiteral("Number");
+			case VBSTokenKind.String:
+				return this.ParseLiteral("String");
+			case VBSTokenKind.Date:
+				return this.ParseLiteral("Date");
+			case VBSTokenKind.Operator:
+				if(token.IsOperator("(")) {
+					this.Advance();
+					let node = new ast.VBSParenthesizedExpression();
+					node.expression = this.ParseExpression();
+					this.ExpectOperator(")");
+					return this.Finish(node, start);
+				}
+
+				if(token.IsOperator(".")) {
+					// member of the object of a "With" block
+					this.Advance();
+					let member = new ast.VBSMemberExpression();
+					this.ParseMemberName(member);
+					return this.Finish(member, start);
+				}
+				break;
+			case VBSTokenKind.Identifier:
+				return this.ParseIdentifierExpression();
+		}
+
+		return this.ExpressionExpected();
+	}
+
+	private ParseLiteral(literalKind: string): ast.VBSExpression {
+		let start = this.StartPosition();
+		let node = new ast.VBSLiteralExpression();
+		node.literalKind = literalKind;
+		node.value = this.Advance().value;
+
+		return this.Finish(node, start);
+	}
+
+	private ParseIdentifierExpression(): ast.VBSExpression {
+		let start = this.StartPosition();
+		let token = this.Current();
+		let keyword = token.text.toLowerCase();
+
+		if(keyword == "true" || keyword == "false")
+			return this.ParseLiteral("Boolean");
+
+		if(keyword == "nothing" || keyword == "empty" || keyword == "null")
+			return this.ParseLiteral(token.text[0].toUpperCase() + keyword.substring(1));
+
+		if(keyword == "me") {
+			this.Advance();
+			return this.Finish(new ast.VBSMeExpression(), start);
+		}
+
+		if(keyword == "new") {
+			this.Advance();
+			let node = new ast.VBSNewExpression();
+			let name = this.ExpectName();
+
+			if(name != null) {
+				node.className = name.value;
+				node.classNameRange = name.range;
+			}
+
+			return this.Finish(node, start);
+		}
+
+		if(IsKeyword(token.text))
+			return this.ExpressionExpected();
+
+		this.Advance();
+		let node = new ast.VBSIdentifierExpression();
+		node.name = token.value;
+
+		return this.Finish(node, start);
+	}
+
+	private ExpressionExpected(): ast.VBSExpression {
+		let token = this.Current();
+		this.Error(token.range, "Expression expected!");
+
+		let node = new ast.VBSErrorExpression();
+		node.range = ls.Range.create(token.range.start, token.range.start);
+
+		return node;
+	}
+}
+
+function IsProcedureKind(kind: string): boolean {
+	return kind == "sub" || kind == "function" || kind == "property";
+}
+
+function SetParents(node: ast.VBSNode) {
+	let children = node.GetChildren();
+
+	for (let i = 0; i < children.length; i++) {
+		children[i].parent = node;
+		SetParents(children[i]);
+	}
+}
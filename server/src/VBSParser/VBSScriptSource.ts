@@ -0,0 +1,395 @@
+import * as ls from 'vscode-languageserver';
+import * as path from 'path';
+import { scriptBlockEnd } from "./VBSLexer";
+
+// a script file which is loaded into the global scope of the document ("<script src="lib.vbs"/>")
+export class VBSInclude {
+	// as written in the document - relative paths start at the folder of the document
+	public path: string = "";
+	// "<!--#include virtual="/lib/db.inc"-->" starts at the virtual root of the web server
+	public isVirtual: boolean = false;
+	public range: ls.Range = null;
+}
+
+// an object which the host creates before the script runs ("<object id="fso" progid="..."/>")
+export class VBSHostObject {
+	public id: string = "";
+	public progId: string = "";
+	public idRange: ls.Range = null;
+	public range: ls.Range = null;
+}
+
+// A "<job>" of a Windows Script File. Every job is a program of its own: its scripts, includes and
+// objects share a global scope which the other jobs of the file don't see.
+export class VBSJob {
+	public id: string = "";
+	public range: ls.Range = null;
+	// "<reference object="ADODB.Recordset"/>" makes the constants of a type library global
+	public hasReferences: boolean = false;
+}
+
+// The VBScript code of a file. Everything else (XML, HTML) is replaced by spaces, so the
+// positions of the code are the same as in the original file.
+export class VBSScriptSource {
+	public text: string = "";
+	// the program which runs the script: "asp" for ASP pages, "hta" for HTML Applications - empty for plain script files
+	public host: string = "";
+	public includes: VBSInclude[] = [];
+	public objects: VBSHostObject[] = [];
+	// the jobs of Windows Script Files - empty for other files
+	public jobs: VBSJob[] = [];
+}
+
+export function ExtractScriptSource(fileName: string, text: string): VBSScriptSource {
+	if(!HasMarkup(fileName)) {
+		let source = new VBSScriptSource();
+		source.text = text;
+		return source;
+	}
+
+	let extension = path.extname(fileName).toLowerCase();
+
+	if(extension == ".wsf")
+		return ExtractWsfScript(text);
+
+	if(extension == ".hta")
+		return ExtractHtaScript(text);
+
+	return ExtractAspScript(text);
+}
+
+// true for files which contain more than VBScript code (.wsf, .asp, .hta)
+export function HasMarkup(fileName: string): boolean {
+	let extension = path.extname(fileName).toLowerCase();
+
+	// ".inc" files are included by ASP pages
+	return extension == ".wsf" || extension == ".asp" || extension == ".inc" || extension == ".hta";
+}
+
+// Windows Script Files are XML: "<job>" elements contain "<script>", "<object>" and "<reference>"
+// elements. The includes and objects belong to the job around them - see VBSJob.
+function ExtractWsfScript(text: string): VBSScriptSource {
+	let source = new VBSScriptSource();
+	let builder = new BlankedTextBuilder(text);
+	let tagPattern = /<!--|<!\[CDATA\[|<(\/?)([a-zA-Z][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+	let match: RegExpExecArray;
+	let job: VBSJob = null;
+	let jobStart = 0;
+
+	while((match = tagPattern.exec(text)) != null) {
+		if(match[0] == "<!--") {
+			tagPattern.lastIndex = SkipPast(text, "-->", tagPattern.lastIndex);
+			continue;
+		}
+
+		if(match[0] == "<![CDATA[") {
+			tagPattern.lastIndex = SkipPast(text, "]]>", tagPattern.lastIndex);
+			continue;
+		}
+
+		let tagName = match[2].toLowerCase();
+
+		if(tagName == "job" && match[1] == "/" && job != null) {
+			job.range = builder.GetRange(jobStart, tagPattern.lastIndex);
+			job = null;
+			continue;
+		}
+
+		if(match[1] == "/")
+			continue;
+
+		let attributes = GetAttributes(match[3], match.index + 1 + match[2].length);
+		let isEmptyElement = /\/\s*$/.test(match[3]);
+
+		if(tagName == "job") {
+			// a job without its closing tag ends at the next one
+			if(job != null)
+				job.range = builder.GetRange(jobStart, match.index);
+
+			job = new VBSJob();
+			job.id = attributes["id"] != null ? attributes["id"].value : "";
+			jobStart = match.index;
+			source.jobs.push(job);
+			continue;
+		}
+
+		if(tagName == "reference") {
+			if(job != null)
+				job.hasReferences = true;
+
+			continue;
+		}
+
+		if(tagName != "script" && tagName != "object")
+			continue;
+
+		if(tagName == "object") {
+			let id = attributes["id"];
+
+			if(id != null && id.value != "") {
+				let object = new VBSHostObject();
+				object.id = id.value;
+				object.progId = attributes["progid"] != null ? attributes["progid"].value : "";
+				object.idRange = builder.GetRange(id.offset, id.offset + id.value.length);
+				object.range = builder.GetRange(match.index, match.index + match[0].length);
+				source.objects.push(object);
+			}
+
+			continue;
+		}
+
+		let contentStart = match.index + match[0].length;
+		let contentEnd = contentStart;
+
+		if(!isEmptyElement) {
+			let closingTag = /<\/script\s*>/ig;
+			closingTag.lastIndex = contentStart;
+			let closingMatch = closingTag.exec(text);
+			contentEnd = closingMatch != null ? closingMatch.index : text.length;
+			tagPattern.lastIndex = closingMatch != null ? closingTag.lastIndex : text.length;
+		}
+
+		if(attributes["language"] == null || !IsVBScript(attributes["language"].value))
+			continue;
+
+		let src = attributes["src"];
+
+		if(src != null && src.value != "") {
+			let include = new VBSInclude();
+			include.path = src.value;
+			include.range = builder.GetRange(src.offset, src.offset + src.value.length);
+			source.includes.push(include);
+		}
+
+		builder.AddScript(contentStart, contentEnd);
+		builder.BlankCDataMarkers(contentStart, contentEnd);
+	}
+
+	if(job != null)
+		job.range = builder.GetRange(jobStart, text.length);
+
+	source.text = builder.ToString();
+	return source;
+}
+
+// ASP runs "<% code %>", "<%= value %>" and "<script runat="server">" on the server - everything
+// else, including "<script>" without runat, is sent to the browser
+function ExtractAspScript(text: string): VBSScriptSource {
+	let source = new VBSScriptSource();
+	let builder = new BlankedTextBuilder(text);
+	let tagPattern = /<%|<script\b((?:[^>"']|"[^"]*"|'[^']*')*)>|<!--\s*#include\s+(file|virtual)\s*=\s*("[^"]*"|'[^']*')\s*-->/ig;
+	// "<%@ Language="JScript" %>" changes the language of the page
+	let pageLanguage = "VBScript";
+	let match: RegExpExecArray;
+
+	source.host = "asp";
+
+	while((match = tagPattern.exec(text)) != null) {
+		if(match[0] == "<%") {
+			let contentStart = tagPattern.lastIndex;
+			let contentEnd = text.indexOf("%>", contentStart);
+
+			if(contentEnd == -1)
+				contentEnd = text.length;
+
+			tagPattern.lastIndex = Math.min(contentEnd + 2, text.length);
+
+			if(text[contentStart] == "@") {
+				let language = /\blanguage\s*=\s*("([^"]*)"|'([^']*)'|([^\s%]+))/i.exec(text.substring(contentStart, contentEnd));
+
+				if(language != null)
+					pageLanguage = language[2] || language[3] || language[4];
+
+				continue;
+			}
+
+			// the "=" of "<%=" stays - the parser reads "= value" as output statement
+			if(IsVBScript(pageLanguage))
+				builder.AddScript(contentStart, contentEnd);
+
+			continue;
+		}
+
+		// IIS replaces "<!--#include file="db.inc"-->" with the content of the file
+		if(match[2] != null) {
+			let include = new VBSInclude();
+			let pathStart = match.index + match[0].lastIndexOf(match[3]) + 1;
+			include.path = match[3].substring(1, match[3].length - 1);
+			include.isVirtual = match[2].toLowerCase() == "virtual";
+			include.range = builder.GetRange(pathStart, pathStart + include.path.length);
+			source.includes.push(include);
+			continue;
+		}
+
+		let attributes = GetAttributes(match[1], match.index + "<script".length);
+		let runat = attributes["runat"];
+
+		if(runat == null || runat.value.toLowerCase() != "server" || /\/\s*$/.test(match[1]))
+			continue;
+
+		let contentStart = match.index + match[0].length;
+		let closingTag = /<\/script\s*>/ig;
+		closingTag.lastIndex = contentStart;
+		let closingMatch = closingTag.exec(text);
+		let contentEnd = closingMatch != null ? closingMatch.index : text.length;
+		tagPattern.lastIndex = closingMatch != null ? closingTag.lastIndex : text.length;
+
+		if(!IsVBScript(attributes["language"] != null ? attributes["language"].value : pageLanguage))
+			continue;
+
+		let src = attributes["src"];
+
+		if(src != null && src.value != "") {
+			let include = new VBSInclude();
+			include.path = src.value;
+			include.range = builder.GetRange(src.offset, src.offset + src.value.length);
+			source.includes.push(include);
+		}
+
+		builder.AddScript(contentStart, contentEnd);
+	}
+
+	source.text = builder.ToString();
+	return source;
+}
+
+// HTML Applications are pages which mshta.exe runs: the "<script language="VBScript">" blocks
+// share one global scope, JScript blocks and the HTML around them are left out
+function ExtractHtaScript(text: string): VBSScriptSource {
+	let source = new VBSScriptSource();
+	let builder = new BlankedTextBuilder(text);
+	let tagPattern = /<!--|<script\b((?:[^>"']|"[^"]*"|'[^']*')*)>/ig;
+	let match: RegExpExecArray;
+
+	source.host = "hta";
+
+	while((match = tagPattern.exec(text)) != null) {
+		if(match[0] == "<!--") {
+			tagPattern.lastIndex = SkipPast(text, "-->", tagPattern.lastIndex);
+			continue;
+		}
+
+		let attributes = GetAttributes(match[1], match.index + "<script".length);
+		let contentStart = match.index + match[0].length;
+		let contentEnd = contentStart;
+
+		if(!/\/\s*$/.test(match[1])) {
+			let closingTag = /<\/script\s*>/ig;
+			closingTag.lastIndex = contentStart;
+			let closingMatch = closingTag.exec(text);
+			contentEnd = closingMatch != null ? closingMatch.index : text.length;
+			tagPattern.lastIndex = closingMatch != null ? closingTag.lastIndex : text.length;
+		}
+
+		// "<script type="text/vbscript">" is the same as "<script language="VBScript">"
+		let language = attributes["language"] != null ? attributes["language"].value : attributes["type"] != null ? attributes["type"].value.replace(/^\s*text\//i, "") : "";
+
+		if(!IsVBScript(language))
+			continue;
+
+		let src = attributes["src"];
+
+		if(src != null && src.value != "") {
+			let include = new VBSInclude();
+			include.path = src.value;
+			include.range = builder.GetRange(src.offset, src.offset + src.value.length);
+			source.includes.push(include);
+		}
+
+		builder.AddScript(contentStart, contentEnd);
+	}
+
+	source.text = builder.ToString();
+	return source;
+}
+
+function IsVBScript(language: string): boolean {
+	return /^\s*(vbscript(\.encode)?|vbs)\s*$/i.test(language);
+}
+
+function SkipPast(text: string, end: string, offset: number): number {
+	let index = text.indexOf(end, offset);
+	return index > -1 ? index + end.length : text.length;
+}
+
+class VBSAttribute {
+	public value: string = "";
+	// offset of the value in the file
+	public offset: number = 0;
+}
+
+// The attributes of a tag by their lower case name - offset is the position of the attributes in the
+// file. HTML allows values without quotes: "<script language=VBScript runat=server>" - the
+// slash of an empty element ("src=lib.vbs/>") is no part of the value.
+function GetAttributes(attributesText: string, offset: number): { [lowerName: string]: VBSAttribute; } {
+	let attributes: { [lowerName: string]: VBSAttribute; } = {};
+	let attributePattern = /([a-zA-Z_][\w:.-]*)\s*=\s*("([^"]*)"|'([^']*)'|((?:[^\s"'>\/]|\/(?!\s*$))+))/g;
+	let match: RegExpExecArray;
+
+	while((match = attributePattern.exec(attributesText)) != null) {
+		let isQuoted = match[5] == null;
+		let attribute = new VBSAttribute();
+		attribute.value = match[3] != null ? match[3] : match[4] != null ? match[4] : match[5];
+		attribute.offset = offset + match.index + match[0].length - match[2].length + (isQuoted ? 1 : 0);
+		attributes[match[1].toLowerCase()] = attribute;
+	}
+
+	return attributes;
+}
+
+// Copies the code of script blocks into a text of spaces which keeps the line breaks of the file.
+class BlankedTextBuilder {
+	private text: string;
+	private characters: string[];
+	private lineStarts: number[] = [ 0 ];
+
+	constructor(text: string) {
+		this.text = text;
+		this.characters = text.split("").map(function(character) {
+			return character == "\r" || character == "\n" ? character : " ";
+		});
+
+		for (let i = 0; i < text.length; i++) {
+			if(text[i] == "\n")
+				this.lineStarts.push(i + 1);
+		}
+	}
+
+	public AddScript(start: number, end: number) {
+		for (let i = start; i < end; i++)
+			this.characters[i] = this.text[i];
+
+		// the markup behind the block is at least one character long ("</script>" or "%>")
+		if(end < this.text.length && this.characters[end] == " ")
+			this.characters[end] = scriptBlockEnd;
+	}
+
+	public GetRange(start: number, end: number): ls.Range {
+		return ls.Range.create(this.GetPosition(start), this.GetPosition(end));
+	}
+
+	public ToString(): string {
+		return this.characters.join("");
+	}
+
+	// "<![CDATA[" and "]]>" keep the XML parser away from "<" and "&" of the code
+	public BlankCDataMarkers(start: number, end: number) {
+		let content = this.text.substring(start, end);
+		let markerPattern = /<!\[CDATA\[|\]\]>/g;
+		let match: RegExpExecArray;
+
+		while((match = markerPattern.exec(content)) != null) {
+			for (let i = 0; i < match[0].length; i++)
+				this.characters[start + match.index + i] = " ";
+		}
+	}
+
+	private GetPosition(offset: number): ls.Position {
+		let line = 0;
+
+		while(line + 1 < this.lineStarts.length && this.lineStarts[line + 1] <= offset)
+			line++;
+
+		return ls.Position.create(line, offset - this.lineStarts[line]);
+	}
+}
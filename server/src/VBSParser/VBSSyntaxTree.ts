@@ -0,0 +1,388 @@
+import * as ls from 'vscode-languageserver';
+import { VBSToken } from "./VBSToken";
+
+export abstract class VBSNode {
+	public range: ls.Range = null;
+	public parent: VBSNode = null;
+
+	public GetChildren(): VBSNode[] {
+		return [];
+	}
+}
+
+export abstract class VBSStatement extends VBSNode {
+}
+
+export abstract class VBSExpression extends VBSNode {
+}
+
+function Compact(nodes: VBSNode[]): VBSNode[] {
+	return nodes.filter(function(node) { return node != null; });
+}
+
+// ---------------------------------------------------------------------------
+// Program and declarations
+
+export class VBSProgram extends VBSNode {
+	public statements: VBSStatement[] = [];
+	public tokens: VBSToken[] = [];
+	public comments: VBSToken[] = [];
+	public diagnostics: ls.Diagnostic[] = [];
+
+	public GetChildren(): VBSNode[] {
+		return this.statements;
+	}
+}
+
+export abstract class VBSBlockStatement extends VBSStatement {
+	public body: VBSStatement[] = [];
+	// range of the keyword(s) which opened the block
+	public keywordRange: ls.Range = null;
+	// range of the keyword(s) which closed the block - null if the block has not been closed
+	public endRange: ls.Range = null;
+
+	public GetChildren(): VBSNode[] {
+		return this.body;
+	}
+}
+
+export class VBSClassDeclaration extends VBSBlockStatement {
+	public name: string = "";
+	public nameRange: ls.Range = null;
+}
+
+export class VBSParameter extends VBSNode {
+	// "ByVal", "ByRef" or ""
+	public modifier: string = "";
+	public name: string = "";
+	public nameRange: ls.Range = null;
+	public isArray: boolean = false;
+}
+
+export abstract class VBSProcedureDeclaration extends VBSBlockStatement {
+	// "Public", "Private" or ""
+	public visibility: string = "";
+	public isDefault: boolean = false;
+	public name: string = "";
+	public nameRange: ls.Range = null;
+	public parameters: VBSParameter[] = [];
+	// the parameter list as written between the parentheses
+	public argsText: string = "";
+	public argsRange: ls.Range = null;
+
+	public GetChildren(): VBSNode[] {
+		return (<VBSNode[]>this.parameters).concat(this.body);
+	}
+}
+
+export class VBSMethodDeclaration extends VBSProcedureDeclaration {
+	// "Sub" or "Function" as written in the document
+	public methodType: string = "";
+}
+
+export class VBSPropertyDeclaration extends VBSProcedureDeclaration {
+	// "Get", "Let" or "Set" as written in the document
+	public accessor: string = "";
+}
+
+export class VBSVariableDeclarator extends VBSNode {
+	public name: string = "";
+	public nameRange: ls.Range = null;
+	public isArray: boolean = false;
+	public bounds: VBSExpression[] = [];
+
+	public GetChildren(): VBSNode[] {
+		return this.bounds;
+	}
+}
+
+export class VBSVariableDeclaration extends VBSStatement {
+	// "Dim", "Public" or "Private" as written in the document
+	public keyword: string = "";
+	public keywordRange: ls.Range = null;
+	public declarators: VBSVariableDeclarator[] = [];
+
+	public GetChildren(): VBSNode[] {
+		return this.declarators;
+	}
+}
+
+export class VBSReDimStatement extends VBSStatement {
+	public preserve: boolean = false;
+	public declarators: VBSVariableDeclarator[] = [];
+
+	public GetChildren(): VBSNode[] {
+		return this.declarators;
+	}
+}
+
+export class VBSConstDeclarator extends VBSNode {
+	public name: string = "";
+	public nameRange: ls.Range = null;
+	public value: VBSExpression = null;
+	// the value as written in the document
+	public valueText: string = "";
+
+	public GetChildren(): VBSNode[] {
+		return Compact([this.value]);
+	}
+}
+
+export class VBSConstDeclaration extends VBSStatement {
+	public visibility: string = "";
+	public declarators: VBSConstDeclarator[] = [];
+
+	public GetChildren(): VBSNode[] {
+		return this.declarators;
+	}
+}
+
+// ---------------------------------------------------------------------------
+// Control flow
+
+export class VBSElseIfClause extends VBSNode {
+	public condition: VBSExpression = null;
+	public body: VBSStatement[] = [];
+	public keywordRange: ls.Range = null;
+
+	public GetChildren(): VBSNode[] {
+		return Compact([this.condition]).concat(this.body);
+	}
+}
+
+export class VBSIfStatement extends VBSBlockStatement {
+	public condition: VBSExpression = null;
+	public elseIfs: VBSElseIfClause[] = [];
+	public elseBody: VBSStatement[] = null;
+	public elseRange: ls.Range = null;
+	public isSingleLine: boolean = false;
+
+	public GetChildren(): VBSNode[] {
+		return Compact([this.condition])
+			.concat(this.body)
+			.concat(this.elseIfs)
+			.concat(this.elseBody != null ? this.elseBody : []);
+	}
+}
+
+export class VBSForStatement extends VBSBlockStatement {
+	public variable: VBSExpression = null;
+	public from: VBSExpression = null;
+	public to: VBSExpression = null;
+	public step: VBSExpression = null;
+
+	public GetChildren(): VBSNode[] {
+		return Compact([this.variable, this.from, this.to, this.step]).concat(this.body);
+	}
+}
+
+export class VBSForEachStatement extends VBSBlockStatement {
+	public variable: VBSExpression = null;
+	public collection: VBSExpression = null;
+
+	public GetChildren(): VBSNode[] {
+		return Compact([this.variable, this.collection]).concat(this.body);
+	}
+}
+
+export class VBSDoStatement extends VBSBlockStatement {
+	// "While", "Until" or ""
+	public conditionKind: string = "";
+	public condition: VBSExpression = null;
+	public isPostCondition: boolean = false;
+
+	public GetChildren(): VBSNode[] {
+		return Compact([this.condition]).concat(this.body);
+	}
+}
+
+export class VBSWhileStatement extends VBSBlockStatement {
+	public condition: VBSExpression = null;
+
+	public GetChildren(): VBSNode[] {
+		return Compact([this.condition]).concat(this.body);
+	}
+}
+
+export class VBSCaseClause extends VBSNode {
+	public values: VBSExpression[] = [];
+	public isElse: boolean = false;
+	public body: VBSStatement[] = [];
+	public keywordRange: ls.Range = null;
+
+	public GetChildren(): VBSNode[] {
+		return (<VBSNode[]>this.values).concat(this.body);
+	}
+}
+
+export class VBSSelectStatement extends VBSBlockStatement {
+	public expression: VBSExpression = null;
+	public cases: VBSCaseClause[] = [];
+
+	public GetChildren(): VBSNode[] {
+		return Compact([this.expression]).concat(this.cases);
+	}
+}
+
+export class VBSWithStatement extends VBSBlockStatement {
+	public object: VBSExpression = null;
+
+	public GetChildren(): VBSNode[] {
+		return Compact([this.object]).concat(this.body);
+	}
+}
+
+// ---------------------------------------------------------------------------
+// Simple statements
+
+export class VBSAssignmentStatement extends VBSStatement {
+	public isSet: boolean = false;
+	public target: VBSExpression = null;
+	public value: VBSExpression = null;
+
+	public GetChildren(): VBSNode[] {
+		return Compact([this.target, this.value]);
+	}
+}
+
+export class VBSCallStatement extends VBSStatement {
+	public hasCallKeyword: boolean = false;
+	public callee: VBSExpression = null;
+	// arguments passed without parentheses ("Foo a, b")
+	public args: VBSExpression[] = [];
+
+	public GetChildren(): VBSNode[] {
+		return Compact([this.callee]).concat(Compact(this.args));
+	}
+}
+
+export class VBSExitStatement extends VBSStatement {
+	// "Sub", "Function", "Property", "Do" or "For"
+	public exitKind: string = "";
+}
+
+export class VBSOnErrorStatement extends VBSStatement {
+	public resumeNext: boolean = false;
+}
+
+export class VBSOptionExplicitStatement extends VBSStatement {
+}
+
+// "<%= value %>" of ASP pages - short for "Response.Write value"
+export class VBSOutputStatement extends VBSStatement {
+	public expression: VBSExpression = null;
+
+	public GetChildren(): VBSNode[] {
+		return Compact([this.expression]);
+	}
+}
+
+export class VBSEraseStatement extends VBSStatement {
+	public targets: VBSExpression[] = [];
+
+	public GetChildren(): VBSNode[] {
+		return this.targets;
+	}
+}
+
+// ---------------------------------------------------------------------------
+// Expressions
+
+export class VBSIdentifierExpression extends VBSExpression {
+	public name: string = "";
+}
+
+export class VBSMemberExpression extends VBSExpression {
+	// null if the member is accessed through a "With" block (".Name")
+	public object: VBSExpression = null;
+	public name: string = "";
+	public nameRange: ls.Range = null;
+
+	public GetChildren(): VBSNode[] {
+		return Compact([this.object]);
+	}
+}
+
+export class VBSCallExpression extends VBSExpression {
+	// VBScript does not distinguish between calls and indexed access
+	public callee: VBSExpression = null;
+	// omitted arguments ("Foo(a, , b)") are null
+	public args: VBSExpression[] = [];
+	public argsRange: ls.Range = null;
+
+	public GetChildren(): VBSNode[] {
+		return Compact([this.callee]).concat(Compact(this.args));
+	}
+}
+
+export class VBSNewExpression extends VBSExpression {
+	public className: string = "";
+	public classNameRange: ls.Range = null;
+}
+
+export class VBSMeExpression extends VBSExpression {
+}
+
+export class VBSLiteralExpression extends VBSExpression {
+	// "String", "Number", "Date", "Boolean", "Nothing", "Empty" or "Null"
+	public literalKind: string = "";
+	public value: string = "";
+}
+
+export class VBSUnaryExpression extends VBSExpression {
+	public operator: string = "";
+	public operand: VBSExpression = null;
+
+	public GetChildren(): VBSNode[] {
+		return Compact([this.operand]);
+	}
+}
+
+export class VBSBinaryExpression extends VBSExpression {
+	public operator: string = "";
+	public left: VBSExpression = null;
+	public right: VBSExpression = null;
+
+	public GetChildren(): VBSNode[] {
+		return Compact([this.left, this.right]);
+	}
+}
+
+export class VBSParenthesizedExpression extends VBSExpression {
+	public expression: VBSExpression = null;
+
+	public GetChildren(): VBSNode[] {
+		return Compact([this.expression]);
+	}
+}
+
+// an expression which could not be parsed
+export class VBSErrorExpression extends VBSExpression {
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+
+export function ForEachNode(node: VBSNode, callback: (node: VBSNode) => void) {
+	callback(node);
+
+	let children = node.GetChildren();
+
+	for (let i = 0; i < children.length; i++) {
+		ForEachNode(children[i], callback);
+	}
+}
+
+// the type can be an abstract class like VBSProcedureDeclaration
+export function FindAncestor<T extends VBSNode>(node: VBSNode, type: Function & { prototype: T }): T {
+	let current = node.parent;
+
+	while(current != null) {
+		if(current instanceof type)
+			return <T>current;
+
+		current = current.parent;
+	}
+
+	return null;
+}
@@ -0,0 +1,119 @@
+import * as ls from 'vscode-languageserver';
+
+export enum VBSTokenKind {
+	Identifier,
+	Number,
+	String,
+	Date,
+	Operator,
+	Comment,
+	Colon,
+	NewLine,
+	EndOfFile,
+	Unknown
+}
+
+export class VBSToken {
+	public kind: VBSTokenKind;
+	// the text as written in the document
+	public text: string = "";
+	// the name of an identifier without brackets or the content of a literal
+	public value: string = "";
+	public start: number = 0;
+	public end: number = 0;
+	public range: ls.Range = null;
+
+	constructor(kind: VBSTokenKind, text: string, value: string, start: number, range: ls.Range) {
+		this.kind = kind;
+		this.text = text;
+		this.value = value;
+		this.start = start;
+		this.end = start + text.length;
+		this.range = range;
+	}
+
+	public Is(keyword: string): boolean {
+		return this.kind == VBSTokenKind.Identifier && this.text.toLowerCase() == keyword;
+	}
+
+	public IsOperator(operator: string): boolean {
+		return this.kind == VBSTokenKind.Operator && this.text == operator;
+	}
+
+	public IsStatementEnd(): boolean {
+		return this.kind == VBSTokenKind.NewLine || this.kind == VBSTokenKind.Colon || this.kind == VBSTokenKind.EndOfFile;
+	}
+}
+
+// reserved words which cannot be used as names of variables, procedures or classes
+export const VBSKeywords: string[] = [
+	"and", "as", "boolean", "byref", "byte", "byval", "call", "case", "class", "const",
+	"currency", "dim", "do", "double", "each", "else", "elseif", "empty", "end",
+	"endif", "enum", "eqv", "event", "exit", "false", "for", "function", "get", "goto", "if",
+	"imp", "implements", "in", "integer", "is", "let", "like", "long", "loop", "lset", "me",
+	"mod", "new", "next", "not", "nothing", "null", "on", "option", "optional", "or",
+	"paramarray", "preserve", "private", "public", "raiseevent", "redim", "rem", "resume",
+	"rset", "select", "set", "shared", "single", "static", "stop", "sub", "then", "to", "true",
+	"type", "typeof", "until", "variant", "wend", "while", "with", "xor"
+];
+
+export function IsKeyword(name: string): boolean {
+	return VBSKeywords.indexOf(name.toLowerCase()) > -1;
+}
+
+// index of the token which contains the position - a position right behind a token counts as well
+export function FindTokenIndexAt(tokens: VBSToken[], position: ls.Position): number {
+	let low = 0;
+	let high = tokens.length - 1;
+
+	while(low <= high) {
+		let middle = (low + high) >> 1;
+		let range = tokens[middle].range;
+
+		if(ComparePositions(range.end, position) < 0) {
+			low = middle + 1;
+		} else if(ComparePositions(range.start, position) > 0) {
+			high = middle - 1;
+		} else {
+			// prefer the identifier if the position touches two tokens ("a|.b" or "a.|b")
+			if(tokens[middle].kind != VBSTokenKind.Identifier) {
+				if(middle > 0 && tokens[middle - 1].kind == VBSTokenKind.Identifier && ComparePositions(tokens[middle - 1].range.end, position) == 0)
+					return middle - 1;
+
+				if(middle + 1 < tokens.length && tokens[middle + 1].kind == VBSTokenKind.Identifier && ComparePositions(tokens[middle + 1].range.start, position) == 0)
+					return middle + 1;
+			}
+
+			return middle;
+		}
+	}
+
+	return -1;
+}
+
+// the index of the last token which starts in front of the position
+export function FindLastTokenBefore(tokens: VBSToken[], position: ls.Position): number {
+	let low = 0;
+	let high = tokens.length - 1;
+	let result = -1;
+
+	while(low <= high) {
+		let middle = Math.floor((low + high) / 2);
+
+		if(ComparePositions(tokens[middle].range.start, position) < 0) {
+			result = middle;
+			low = middle + 1;
+		} else {
+			high = middle - 1;
+		}
+	}
+
+	return result;
+}
+
+export function ComparePositions(a: ls.Position, b: ls.Position): number {
+	if(a.line != b.line)
+		return a.line - b.line;
+
+	return a.character - b.character;
+}
@@ -0,0 +1,109 @@
+import { VBSSymbol } from "../VBSSymbols/VBSSymbol";
+import { VBSMethodSymbol } from "../VBSSymbols/VBSMethodSymbol";
+import { VBSPropertySymbol } from "../VBSSymbols/VBSPropertySymbol";
+import { VBSConstantSymbol } from "../VBSSymbols/VBSConstantSymbol";
+import { VBSClassSymbol } from "../VBSSymbols/VBSClassSymbol";
+import { VBSObjectSymbol } from "../VBSSymbols/VBSObjectSymbol";
+import { VBSDocComment, VBSDocCommentParameter } from "../VBSSymbols/VBSDocComment";
+import * as catalog from "./VBSRuntimeCatalog";
+
+class VBSRuntime {
+	// functions, constants, objects and classes which are visible everywhere
+	globals: VBSSymbol[] = [];
+	globalsByName: { [lowerName: string]: VBSSymbol; } = {};
+}
+
+let runtime: VBSRuntime = null;
+
+// the symbols of the runtime are created once and shared by all documents
+function GetRuntime(): VBSRuntime {
+	if(runtime != null)
+		return runtime;
+
+	runtime = new VBSRuntime();
+
+	catalog.runtimeFunctions.forEach(definition => {
+		AddGlobal(CreateProcedureSymbol(definition.name, "method", definition.args, definition.returns, definition.description, definition.params));
+	});
+
+	catalog.runtimeConstants.forEach(group => {
+		group.constants.forEach(constant => {
+			let symbol = new VBSConstantSymbol();
+			symbol.name = constant[0];
+			symbol.value = constant[1];
+			symbol.docComment = CreateDocComment(group.description, null);
+			AddGlobal(symbol);
+		});
+	});
+
+	catalog.runtimeObjects.forEach(definition => {
+		let symbol = new VBSObjectSymbol();
+		symbol.name = definition.name;
+		symbol.returnType = definition.type;
+		symbol.docComment = CreateDocComment(definition.description, null);
+		AddGlobal(symbol);
+	});
+
+	// the members of the classes are part of the type catalog
+	catalog.runtimeTypes.forEach(definition => {
+		if(catalog.runtimeClasses.indexOf(definition.name) > -1) {
+			let symbol = new VBSClassSymbol();
+			symbol.name = definition.name;
+			symbol.docComment = CreateDocComment(definition.description, null);
+			AddGlobal(symbol);
+		}
+	});
+
+	return runtime;
+}
+
+function AddGlobal(symbol: VBSSymbol) {
+	symbol.isBuiltin = true;
+	runtime.globals.push(symbol);
+	runtime.globalsByName[symbol.name.toLowerCase()] = symbol;
+}
+
+export function CreateProcedureSymbol(name: string, kind: string, args: string, returns: string, description: string, params: { [name: string]: string; }): VBSSymbol {
+	let symbol: VBSSymbol;
+
+	if(kind == "property") {
+		symbol = new VBSPropertySymbol();
+		symbol.type = "Get";
+	} else {
+		symbol = new VBSMethodSymbol();
+		symbol.type = returns != null && returns != "" ? "Function" : "Sub";
+	}
+
+	symbol.name = name;
+	symbol.args = args != null ? args : "";
+	symbol.returnType = returns != null ? returns : "";
+	symbol.isBuiltin = true;
+	symbol.docComment = CreateDocComment(description, params);
+	return symbol;
+}
+
+export function CreateDocComment(description: string, params: { [name: string]: string; }): VBSDocComment {
+	let docComment = new VBSDocComment();
+	docComment.description = description != null ? description : "";
+
+	if(params != null) {
+		Object.keys(params).forEach(name => {
+			let param = new VBSDocCommentParameter();
+			param.name = name;
+			param.description = params[name];
+			docComment.params.push(param);
+		});
+	}
+
+	return docComment;
+}
+
+export function GetRuntimeSymbols(): VBSSymbol[] {
+	return GetRuntime().globals;
+}
+
+// null if the name is not part of the runtime
+export function FindRuntimeSymbol(name: string): VBSSymbol {
+	let symbol = GetRuntime().globalsByName[name.toLowerCase()];
+	return symbol != null ? symbol : null;
+}
@@ -0,0 +1,475 @@
+// The VBScript runtime: intrinsic functions, constants, objects and classes.
+
+export interface VBSFunctionDefinition {
+	name: string;
+	// optional parameters are written in brackets
+	args: string;
+	// empty for procedures without a return value
+	returns: string;
+	description: string;
+	params?: { [name: string]: string; };
+}
+
+export interface VBSConstantGroupDefinition {
+	description: string;
+	constants: [string, string][];
+}
+
+export interface VBSMemberDefinition {
+	name: string;
+	// "method" or "property"
+	kind: string;
+	args?: string;
+	returns?: string;
+	description?: string;
+	params?: { [name: string]: string; };
+	// the member used when the object itself is used as value
+	isDefault?: boolean;
+}
+
+export interface VBSTypeDefinition {
+	name: string;
+	description?: string;
+	// the members of this type are added to the ones of the base type
+	extends?: string;
+	members: VBSMemberDefinition[];
+}
+
+export interface VBSObjectDefinition {
+	name: string;
+	type: string;
+	description: string;
+}
+
+const compareDescription = "vbBinaryCompare (0, default) or vbTextCompare (1).";
+const intervalDescription = "\"yyyy\" year, \"q\" quarter, \"m\" month, \"y\" day of year, \"d\" day, \"w\" weekday, \"ww\" week, \"h\" hour, \"n\" minute, \"s\" second.";
+const tristateDescription = "vbTrue, vbFalse or vbUseDefault (regional settings).";
+
+export const runtimeFunctions: VBSFunctionDefinition[] = [
+	{ name: "Abs", args: "number", returns: "Variant", description: "Returns the absolute value of a number." },
+	{ name: "Array", args: "arglist", returns: "Array", description: "Returns a Variant containing an array of the comma-delimited list of values." },
+	{ name: "Asc", args: "string", returns: "Integer", description: "Returns the ANSI character code of the first letter in a string." },
+	{ name: "AscB", args: "string", returns: "Integer", description: "Returns the first byte of a string." },
+	{ name: "AscW", args: "string", returns: "Integer", description: "Returns the Unicode character code of the first letter in a string." },
+	{ name: "Atn", args: "number", returns: "Double", description: "Returns the arctangent of a number in radians." },
+	{ name: "CBool", args: "expression", returns: "Boolean", description: "Converts an expression to a Boolean." },
+	{ name: "CByte", args: "expression", returns: "Byte", description: "Converts an expression to a Byte." },
+	{ name: "CCur", args: "expression", returns: "Currency", description: "Converts an expression to a Currency." },
+	{ name: "CDate", args: "date", returns: "Date", description: "Converts a valid date and time expression to a Date." },
+	{ name: "CDbl", args: "expression", returns: "Double", description: "Converts an expression to a Double." },
+	{ name: "Chr", args: "charcode", returns: "String", description: "Returns the character of the specified ANSI character code." },
+	{ name: "ChrB", args: "charcode", returns: "String", description: "Returns a single byte string with the specified byte." },
+	{ name: "ChrW", args: "charcode", returns: "String", description: "Returns the character of the specified Unicode character code." },
+	{ name: "CInt", args: "expression", returns: "Integer", description: "Converts an expression to an Integer. Fractions are rounded to the nearest even number." },
+	{ name: "CLng", args: "expression", returns: "Long", description: "Converts an expression to a Long. Fractions are rounded to the nearest even number." },
+	{ name: "Cos", args: "number", returns: "Double", description: "Returns the cosine of an angle in radians." },
+	{
+		name: "CreateObject", args: "class, [location]", returns: "Object",
+		description: "Creates and returns a reference to an Automation object.",
+		params: {
+			"class": "ProgID of the object, e.g. \"Scripting.FileSystemObject\".",
+			"[location]": "Name of the network server where the object is created."
+		}
+	},
+	{ name: "CSng", args: "expression", returns: "Single", description: "Converts an expression to a Single." },
+	{ name: "CStr", args: "expression", returns: "String", description: "Converts an expression to a String." },
+	{ name: "Date", args: "", returns: "Date", description: "Returns the current system date." },
+	{
+		name: "DateAdd", args: "interval, number, date", returns: "Date",
+		description: "Returns a date to which a specified time interval has been added.",
+		params: {
+			"interval": intervalDescription,
+			"number": "Number of intervals to add. Negative values subtract.",
+			"date": "Date to which the interval is added."
+		}
+	},
+	{
+		name: "DateDiff", args: "interval, date1, date2, [firstdayofweek], [firstweekofyear]", returns: "Long",
+		description: "Returns the number of intervals between two dates.",
+		params: {
+			"interval": intervalDescription,
+			"date1": "First date.",
+			"date2": "Second date. The result is negative if it is earlier than date1.",
+			"[firstdayofweek]": "First day of the week (vbSunday if omitted).",
+			"[firstweekofyear]": "First week of the year (vbFirstJan1 if omitted)."
+		}
+	},
+	{
+		name: "DatePart", args: "interval, date, [firstdayofweek], [firstweekofyear]", returns: "Integer",
+		description: "Returns the specified part of a given date.",
+		params: {
+			"interval": intervalDescription,
+			"date": "Date to evaluate.",
+			"[firstdayofweek]": "First day of the week (vbSunday if omitted).",
+			"[firstweekofyear]": "First week of the year (vbFirstJan1 if omitted)."
+		}
+	},
+	{ name: "DateSerial", args: "year, month, day", returns: "Date", description: "Returns a Date for a specified year, month and day. Values out of range roll over, e.g. month 13." },
+	{ name: "DateValue", args: "date", returns: "Date", description: "Returns the date part of a date expression or string." },
+	{ name: "Day", args: "date", returns: "Integer", description: "Returns the day of the month (1 to 31)." },
+	{ name: "Escape", args: "charString", returns: "String", description: "Encodes a string so it only contains ASCII characters (%xx and %uxxxx)." },
+	{ name: "Eval", args: "expression", returns: "Variant", description: "Evaluates an expression and returns the result." },
+	{ name: "Execute", args: "statement", returns: "", description: "Executes one or more statements in the local scope." },
+	{ name: "ExecuteGlobal", args: "statement", returns: "", description: "Executes one or more statements in the global scope of a script." },
+	{ name: "Exp", args: "number", returns: "Double", description: "Returns e (the base of natural logarithms) raised to a power." },
+	{
+		name: "Filter", args: "InputStrings, Value, [Include], [Compare]", returns: "Array",
+		description: "Returns a zero-based array containing a subset of a string array based on a filter criteria.",
+		params: {
+			"InputStrings": "One-dimensional array of strings to be searched.",
+			"Value": "String to search for.",
+			"[Include]": "True (default) returns the strings which contain Value, False the ones which do not.",
+			"[Compare]": compareDescription
+		}
+	},
+	{ name: "Fix", args: "number", returns: "Variant", description: "Returns the integer portion of a number. Negative numbers are rounded up: Fix(-8.4) is -8." },
+	{
+		name: "FormatCurrency", args: "Expression, [NumDigitsAfterDecimal], [IncludeLeadingDigit], [UseParensForNegativeNumbers], [GroupDigits]", returns: "String",
+		description: "Returns an expression formatted as a currency value using the currency symbol of the system.",
+		params: {
+			"[NumDigitsAfterDecimal]": "Number of digits after the decimal point (-1, regional settings, if omitted).",
+			"[IncludeLeadingDigit]": tristateDescription,
+			"[UseParensForNegativeNumbers]": tristateDescription,
+			"[GroupDigits]": tristateDescription
+		}
+	},
+	{
+		name: "FormatDateTime", args: "Date, [NamedFormat]", returns: "String",
+		description: "Returns an expression formatted as a date or time.",
+		params: {
+			"[NamedFormat]": "vbGeneralDate (default), vbLongDate, vbShortDate, vbLongTime or vbShortTime."
+		}
+	},
+	{
+		name: "FormatNumber", args: "Expression, [NumDigitsAfterDecimal], [IncludeLeadingDigit], [UseParensForNegativeNumbers], [GroupDigits]", returns: "String",
+		description: "Returns an expression formatted as a number.",
+		params: {
+			"[NumDigitsAfterDecimal]": "Number of digits after the decimal point (-1, regional settings, if omitted).",
+			"[IncludeLeadingDigit]": tristateDescription,
+			"[UseParensForNegativeNumbers]": tristateDescription,
+			"[GroupDigits]": tristateDescription
+		}
+	},
+	{
+		name: "FormatPercent", args: "Expression, [NumDigitsAfterDecimal], [IncludeLeadingDigit], [UseParensForNegativeNumbers], [GroupDigits]", returns: "String",
+		description: "Returns an expression multiplied by 100 and formatted as a percentage with a trailing % character.",
+		params: {
+			"[NumDigitsAfterDecimal]": "Number of digits after the decimal point (-1, regional settings, if omitted).",
+			"[IncludeLeadingDigit]": tristateDescription,
+			"[UseParensForNegativeNumbers]": tristateDescription,
+			"[GroupDigits]": tristateDescription
+		}
+	},
+	{ name: "GetLocale", args: "", returns: "Long", description: "Returns the current locale ID." },
+	{ name: "GetObject", args: "[pathname], [class]", returns: "Object", description: "Returns a reference to an Automation object from a file or a running instance." },
+	{ name: "GetRef", args: "procname", returns: "Object", description: "Returns a reference to a procedure that can be bound to an event, e.g. window.onload = GetRef(\"Init\")." },
+	{ name: "Hex", args: "number", returns: "String", description: "Returns the hexadecimal value of a number." },
+	{ name: "Hour", args: "time", returns: "Integer", description: "Returns the hour of the day (0 to 23)." },
+	{
+		name: "InputBox", args: "prompt, [title], [default], [xpos], [ypos], [helpfile], [context]", returns: "String",
+		description: "Displays a prompt in a dialog box and waits for the user to input text or click a button. Returns an empty string if the user clicks Cancel.",
+		params: {
+			"prompt": "Message displayed in the dialog box.",
+			"[title]": "Text of the title bar.",
+			"[default]": "Text in the text box if no other input is provided.",
+			"[xpos]": "Horizontal distance of the dialog box from the left edge of the screen in twips.",
+			"[ypos]": "Vertical distance of the dialog box from the top of the screen in twips.",
+			"[helpfile]": "Help file for context-sensitive help. Requires context.",
+			"[context]": "Help context number. Requires helpfile."
+		}
+	},
+	{
+		name: "InStr", args: "[start], string1, string2, [compare]", returns: "Long",
+		description: "Returns the position of the first occurrence of one string within another - 0 if it is not found.",
+		params: {
+			"[start]": "Position where the search starts (1 if omitted). Required if compare is given.",
+			"string1": "String being searched.",
+			"string2": "String searched for.",
+			"[compare]": compareDescription
+		}
+	},
+	{ name: "InStrB", args: "[start], string1, string2, [compare]", returns: "Long", description: "Returns the byte position of the first occurrence of one string within another." },
+	{
+		name: "InStrRev", args: "string1, string2, [start], [compare]", returns: "Long",
+		description: "Returns the position of an occurrence of one string within another, from the end of string - 0 if it is not found.",
+		params: {
+			"string1": "String being searched.",
+			"string2": "String searched for.",
+			"[start]": "Position where the search starts (-1, the last character, if omitted).",
+			"[compare]": compareDescription
+		}
+	},
+	{ name: "Int", args: "number", returns: "Variant", description: "Returns the integer portion of a number. Negative numbers are rounded down: Int(-8.4) is -9." },
+	{ name: "IsArray", args: "varname", returns: "Boolean", description: "Returns whether a variable is an array." },
+	{ name: "IsDate", args: "expression", returns: "Boolean", description: "Returns whether an expression can be converted to a date." },
+	{ name: "IsEmpty", args: "expression", returns: "Boolean", description: "Returns whether a variable has been initialized." },
+	{ name: "IsNull", args: "expression", returns: "Boolean", description: "Returns whether an expression contains no valid data (Null)." },
+	{ name: "IsNumeric", args: "expression", returns: "Boolean", description: "Returns whether an expression can be evaluated as a number." },
+	{ name: "IsObject", args: "expression", returns: "Boolean", description: "Returns whether an expression references a valid Automation object." },
+	{
+		name: "Join", args: "list, [delimiter]", returns: "String",
+		description: "Returns a string created by joining the strings of an array.",
+		params: {
+			"list": "One-dimensional array containing the substrings to be joined.",
+			"[delimiter]": "String used to separate the substrings (\" \" if omitted)."
+		}
+	},
+	{ name: "LBound", args: "arrayname, [dimension]", returns: "Long", description: "Returns the smallest subscript of a dimension of an array - always 0 in VBScript." },
+	{ name: "LCase", args: "string", returns: "String", description: "Returns a string that has been converted to lowercase." },
+	{
+		name: "Left", args: "string, length", returns: "String",
+		description: "Returns a specified number of characters from the left side of a string.",
+		params: {
+			"string": "String from which the leftmost characters are returned.",
+			"length": "Number of characters to return."
+		}
+	},
+	{ name: "LeftB", args: "string, length", returns: "String", description: "Returns a specified number of bytes from the left side of a string." },
+	{ name: "Len", args: "string", returns: "Long", description: "Returns the number of characters in a string." },
+	{ name: "LenB", args: "string", returns: "Long", description: "Returns the number of bytes used to represent a string." },
+	{ name: "LoadPicture", args: "picturename", returns: "Object", description: "Returns a picture object. Only available on 32-bit platforms." },
+	{ name: "Log", args: "number", returns: "Double", description: "Returns the natural logarithm of a number." },
+	{ name: "LTrim", args: "string", returns: "String", description: "Returns a copy of a string without leading spaces." },
+	{
+		name: "Mid", args: "string, start, [length]", returns: "String",
+		description: "Returns a specified number of characters from a string.",
+		params: {
+			"string": "String from which characters are returned.",
+			"start": "Position of the first character (1-based).",
+			"[length]": "Number of characters to return. All characters up to the end if omitted."
+		}
+	},
+	{ name: "MidB", args: "string, start, [length]", returns: "String", description: "Returns a specified number of bytes from a string." },
+	{ name: "Minute", args: "time", returns: "Integer", description: "Returns the minute of the hour (0 to 59)." },
+	{ name: "Month", args: "date", returns: "Integer", description: "Returns the month of the year (1 to 12)." },
+	{ name: "MonthName", args: "month, [abbreviate]", returns: "String", description: "Returns the name of the specified month." },
+	{
+		name: "MsgBox", args: "prompt, [buttons], [title], [helpfile], [context]", returns: "Integer",
+		description: "Displays a message in a dialog box and returns the clicked button, e.g. vbYes.",
+		params: {
+			"prompt": "Message displayed in the dialog box.",
+			"[buttons]": "Sum of vbOKOnly, vbYesNo, vbCritical, vbQuestion, ... (vbOKOnly if omitted).",
+			"[title]": "Text of the title bar.",
+			"[helpfile]": "Help file for context-sensitive help. Requires context.",
+			"[context]": "Help context number. Requires helpfile."
+		}
+	},
+	{ name: "Now", args: "", returns: "Date", description: "Returns the current date and time of the system." },
+	{ name: "Oct", args: "number", returns: "String", description: "Returns the octal value of a number." },
+	{ name: "Randomize", args: "[number]", returns: "", description: "Initializes the random-number generator. The system timer is used as seed if number is omitted." },
+	{
+		name: "Replace", args: "expression, find, replacewith, [start], [count], [compare]", returns: "String",
+		description: "Returns a string in which a specified substring has been replaced with another substring a specified number of times.",
+		params: {
+			"expression": "String containing the substring to replace.",
+			"find": "Substring being searched for.",
+			"replacewith": "Replacement substring.",
+			"[start]": "Position where the search starts. The result starts at this position, too! (1 if omitted)",
+			"[count]": "Number of substitutions to perform (-1, all, if omitted).",
+			"[compare]": compareDescription
+		}
+	},
+	{ name: "RGB", args: "red, green, blue", returns: "Long", description: "Returns a whole number representing an RGB color value." },
+	{
+		name: "Right", args: "string, length", returns: "String",
+		description: "Returns a specified number of characters from the right side of a string.",
+		params: {
+			"string": "String from which the rightmost characters are returned.",
+			"length": "Number of characters to return."
+		}
+	},
+	{ name: "RightB", args: "string, length", returns: "String", description: "Returns a specified number of bytes from the right side of a string." },
+	{ name: "Rnd", args: "[number]", returns: "Single", description: "Returns a random number less than 1 but greater than or equal to 0." },
+	{ name: "Round", args: "expression, [numdecimalplaces]", returns: "Variant", description: "Returns a number rounded to a specified number of decimal places. Halves are rounded to the nearest even number." },
+	{ name: "RTrim", args: "string", returns: "String", description: "Returns a copy of a string without trailing spaces." },
+	{ name: "ScriptEngine", args: "", returns: "String", description: "Returns the name of the scripting language in use, e.g. \"VBScript\"." },
+	{ name: "ScriptEngineBuildVersion", args: "", returns: "Long", description: "Returns the build version number of the scripting engine in use." },
+	{ name: "ScriptEngineMajorVersion", args: "", returns: "Long", description: "Returns the major version number of the scripting engine in use." },
+	{ name: "ScriptEngineMinorVersion", args: "", returns: "Long", description: "Returns the minor version number of the scripting engine in use." },
+	{ name: "Second", args: "time", returns: "Integer", description: "Returns the second of the minute (0 to 59)." },
+	{ name: "SetLocale", args: "lcid", returns: "Long", description: "Sets the global locale and returns the previous locale." },
+	{ name: "Sgn", args: "number", returns: "Integer", description: "Returns 1, 0 or -1 for positive numbers, zero and negative numbers." },
+	{ name: "Sin", args: "number", returns: "Double", description: "Returns the sine of an angle in radians." },
+	{ name: "Space", args: "number", returns: "String", description: "Returns a string consisting of the specified number of spaces." },
+	{
+		name: "Split", args: "expression, [delimiter], [count], [compare]", returns: "Array",
+		description: "Returns a zero-based, one-dimensional array containing a specified number of substrings.",
+		params: {
+			"expression": "String containing substrings and delimiters.",
+			"[delimiter]": "String used to separate the substrings (\" \" if omitted).",
+			"[count]": "Number of substrings to return (-1, all, if omitted).",
+			"[compare]": compareDescription
+		}
+	},
+	{ name: "Sqr", args: "number", returns: "Double", description: "Returns the square root of a number." },
+	{
+		name: "StrComp", args: "string1, string2, [compare]", returns: "Integer",
+		description: "Returns -1, 0 or 1 if string1 is less than, equal to or greater than string2 - Null if one of them is Null.",
+		params: {
+			"[compare]": compareDescription
+		}
+	},
+	{ name: "String", args: "number, character", returns: "String", description: "Returns a repeating character string of the length specified." },
+	{ name: "StrReverse", args: "string", returns: "String", description: "Returns a string in which the character order of a specified string is reversed." },
+	{ name: "Tan", args: "number", returns: "Double", description: "Returns the tangent of an angle in radians." },
+	{ name: "Time", args: "", returns: "Date", description: "Returns the current system time." },
+	{ name: "Timer", args: "", returns: "Single", description: "Returns the number of seconds that have elapsed since 12:00 AM (midnight)." },
+	{ name: "TimeSerial", args: "hour, minute, second", returns: "Date", description: "Returns a Date containing the time for a specific hour, minute and second." },
+	{ name: "TimeValue", args: "time", returns: "Date", description: "Returns the time part of a date expression or string." },
+	{ name: "Trim", args: "string", returns: "String", description: "Returns a copy of a string without leading and trailing spaces." },
+	{ name: "TypeName", args: "varname", returns: "String", description: "Returns the subtype of a variable as string, e.g. \"String\", \"Empty\" or the class name of an object." },
+	{ name: "UBound", args: "arrayname, [dimension]", returns: "Long", description: "Returns the largest subscript of a dimension of an array - -1 for an empty array." },
+	{ name: "UCase", args: "string", returns: "String", description: "Returns a string that has been converted to uppercase." },
+	{ name: "Unescape", args: "charString", returns: "String", description: "Decodes a string encoded with the Escape function." },
+	{ name: "VarType", args: "varname", returns: "Integer", description: "Returns the subtype of a variable as one of the vbEmpty, vbString, ... constants. Arrays add vbArray." },
+	{ name: "Weekday", args: "date, [firstdayofweek]", returns: "Integer", description: "Returns the day of the week (vbSunday to vbSaturday)." },
+	{ name: "WeekdayName", args: "weekday, [abbreviate], [firstdayofweek]", returns: "String", description: "Returns the name of the specified day of the week." },
+	{ name: "Year", args: "date", returns: "Integer", description: "Returns the year of a date." }
+];
+
+export const runtimeConstants: VBSConstantGroupDefinition[] = [
+	{
+		description: "String constant.",
+		constants: [
+			[ "vbCr", "Chr(13)" ], [ "vbCrLf", "Chr(13) & Chr(10)" ], [ "vbFormFeed", "Chr(12)" ], [ "vbLf", "Chr(10)" ],
+			[ "vbNewLine", "Chr(13) & Chr(10)" ], [ "vbNullChar", "Chr(0)" ], [ "vbNullString", "\"\"" ], [ "vbTab", "Chr(9)" ],
+			[ "vbVerticalTab", "Chr(11)" ]
+		]
+	},
+	{
+		description: "Comparison mode of InStr, Replace, Split, StrComp and others.",
+		constants: [ [ "vbBinaryCompare", "0" ], [ "vbTextCompare", "1" ] ]
+	},
+	{
+		description: "Day of the week.",
+		constants: [
+			[ "vbUseSystemDayOfWeek", "0" ], [ "vbSunday", "1" ], [ "vbMonday", "2" ], [ "vbTuesday", "3" ], [ "vbWednesday", "4" ],
+			[ "vbThursday", "5" ], [ "vbFriday", "6" ], [ "vbSaturday", "7" ]
+		]
+	},
+	{
+		description: "First week of the year.",
+		constants: [ [ "vbUseSystem", "0" ], [ "vbFirstJan1", "1" ], [ "vbFirstFourDays", "2" ], [ "vbFirstFullWeek", "3" ] ]
+	},
+	{
+		description: "Date format of FormatDateTime.",
+		constants: [ [ "vbGeneralDate", "0" ], [ "vbLongDate", "1" ], [ "vbShortDate", "2" ], [ "vbLongTime", "3" ], [ "vbShortTime", "4" ] ]
+	},
+	{
+		description: "MsgBox buttons and icons - combine them by adding them.",
+		constants: [
+			[ "vbOKOnly", "0" ], [ "vbOKCancel", "1" ], [ "vbAbortRetryIgnore", "2" ], [ "vbYesNoCancel", "3" ], [ "vbYesNo", "4" ],
+			[ "vbRetryCancel", "5" ], [ "vbCritical", "16" ], [ "vbQuestion", "32" ], [ "vbExclamation", "48" ], [ "vbInformation", "64" ],
+			[ "vbDefaultButton1", "0" ], [ "vbDefaultButton2", "256" ], [ "vbDefaultButton3", "512" ], [ "vbDefaultButton4", "768" ],
+			[ "vbApplicationModal", "0" ], [ "vbSystemModal", "4096" ]
+		]
+	},
+	{
+		description: "Button clicked in a MsgBox.",
+		constants: [ [ "vbOK", "1" ], [ "vbCancel", "2" ], [ "vbAbort", "3" ], [ "vbRetry", "4" ], [ "vbIgnore", "5" ], [ "vbYes", "6" ], [ "vbNo", "7" ] ]
+	},
+	{
+		description: "Tristate value of the Format functions.",
+		constants: [ [ "vbUseDefault", "-2" ], [ "vbTrue", "-1" ], [ "vbFalse", "0" ] ]
+	},
+	{
+		description: "Subtype returned by VarType.",
+		constants: [
+			[ "vbEmpty", "0" ], [ "vbNull", "1" ], [ "vbInteger", "2" ], [ "vbLong", "3" ], [ "vbSingle", "4" ], [ "vbDouble", "5" ],
+			[ "vbCurrency", "6" ], [ "vbDate", "7" ], [ "vbString", "8" ], [ "vbObject", "9" ], [ "vbError", "10" ], [ "vbBoolean", "11" ],
+			[ "vbVariant", "12" ], [ "vbDataObject", "13" ], [ "vbDecimal", "14" ], [ "vbByte", "17" ], [ "vbArray", "8192" ]
+		]
+	},
+	{
+		description: "Color value.",
+		constants: [
+			[ "vbBlack", "&h00" ], [ "vbRed", "&hFF" ], [ "vbGreen", "&hFF00" ], [ "vbYellow", "&hFFFF" ], [ "vbBlue", "&hFF0000" ],
+			[ "vbMagenta", "&hFF00FF" ], [ "vbCyan", "&hFFFF00" ], [ "vbWhite", "&hFFFFFF" ]
+		]
+	},
+	{
+		description: "Base of user-defined error numbers: Err.Raise vbObjectError + 1000",
+		constants: [ [ "vbObjectError", "-2147221504" ] ]
+	}
+];
+
+export const runtimeTypes: VBSTypeDefinition[] = [
+	{
+		name: "DebugObject",
+		description: "Output for a script debugger.",
+		members: [
+			{ name: "Write", kind: "method", args: "[str]", description: "Sends the text to the script debugger - nothing happens if no debugger is attached." },
+			{ name: "WriteLine", kind: "method", args: "[str]", description: "Sends the text and a line break to the script debugger - nothing happens if no debugger is attached." }
+		]
+	},
+	{
+		name: "ErrObject",
+		description: "Information about run-time errors.",
+		members: [
+			{ name: "Description", kind: "property", returns: "String", description: "The description of the error." },
+			{ name: "HelpContext", kind: "property", returns: "Long", description: "The context ID of a topic in a help file." },
+			{ name: "HelpFile", kind: "property", returns: "String", description: "The fully qualified path to a help file." },
+			{ name: "Number", kind: "property", returns: "Long", description: "The number of the error - 0 if no error occurred.", isDefault: true },
+			{ name: "Source", kind: "property", returns: "String", description: "The name of the object or application that generated the error." },
+			{ name: "Clear", kind: "method", args: "", description: "Clears all property settings of the Err object. \"On Error Resume Next\" and \"On Error GoTo 0\" do this as well." },
+			{
+				name: "Raise", kind: "method", args: "number, [source], [description], [helpfile], [helpcontext]",
+				description: "Generates a run-time error.",
+				params: {
+					"number": "Error number - user-defined errors should add vbObjectError.",
+					"[source]": "Name of the object or application that generated the error.",
+					"[description]": "Description of the error.",
+					"[helpfile]": "Fully qualified path to the help file.",
+					"[helpcontext]": "Context ID of the topic in the help file."
+				}
+			}
+		]
+	},
+	{
+		name: "RegExp",
+		description: "Simple regular expression support.",
+		members: [
+			{ name: "Global", kind: "property", returns: "Boolean", description: "Whether all matches or just the first one are found." },
+			{ name: "IgnoreCase", kind: "property", returns: "Boolean", description: "Whether the search is case-insensitive." },
+			{ name: "Multiline", kind: "property", returns: "Boolean", description: "Whether ^ and $ match at the start and end of every line." },
+			{ name: "Pattern", kind: "property", returns: "String", description: "The regular expression being searched for." },
+			{ name: "Execute", kind: "method", args: "string", returns: "MatchCollection", description: "Executes the search against the string and returns the matches." },
+			{ name: "Replace", kind: "method", args: "string1, string2", returns: "String", description: "Replaces the text found in string1 with string2. $1 to $9 refer to submatches." },
+			{ name: "Test", kind: "method", args: "string", returns: "Boolean", description: "Returns whether the pattern matches the string." }
+		]
+	},
+	{
+		name: "MatchCollection",
+		description: "The matches found by RegExp.Execute.",
+		members: [
+			{ name: "Count", kind: "property", returns: "Long", description: "The number of matches." },
+			{ name: "Item", kind: "property", args: "index", returns: "Match", description: "The match at the zero-based index.", isDefault: true }
+		]
+	},
+	{
+		name: "Match",
+		description: "A single match of a regular expression.",
+		members: [
+			{ name: "FirstIndex", kind: "property", returns: "Long", description: "The zero-based position of the match in the searched string." },
+			{ name: "Length", kind: "property", returns: "Long", description: "The length of the matched text." },
+			{ name: "SubMatches", kind: "property", returns: "SubMatches", description: "The text of the parenthesized groups of the pattern." },
+			{ name: "Value", kind: "property", returns: "String", description: "The matched text.", isDefault: true }
+		]
+	},
+	{
+		name: "SubMatches",
+		description: "The text of the parenthesized groups of a match.",
+		members: [
+			{ name: "Count", kind: "property", returns: "Long", description: "The number of submatches." },
+			{ name: "Item", kind: "property", args: "index", returns: "String", description: "The submatch at the zero-based index.", isDefault: true }
+		]
+	}
+];
+
+export const runtimeObjects: VBSObjectDefinition[] = [
+	{ name: "Debug", type: "DebugObject", description: "Writes to the script debugger." },
+	{ name: "Err", type: "ErrObject", description: "Information about the last run-time error." }
+];
+
+// types which can be created with "New"
+export const runtimeClasses: string[] = [ "RegExp" ];
@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import { VBSSymbol } from "../VBSSymbols/VBSSymbol";
+import { VBSObjectSymbol } from "../VBSSymbols/VBSObjectSymbol";
+import { CreateProcedureSymbol, CreateDocComment } from "./VBSRuntime";
+import { VBSTypeDefinition, VBSObjectDefinition, runtimeTypes } from "./VBSRuntimeCatalog";
+import scriptingCatalog = require("./catalogs/scripting.json");
+import wshCatalog = require("./catalogs/wsh.json");
+import adodbCatalog = require("./catalogs/adodb.json");
+import msxmlCatalog = require("./catalogs/msxml.json");
+import wbemCatalog = require("./catalogs/wbem.json");
+import aspCatalog = require("./catalogs/asp.json");
+import htaCatalog = require("./catalogs/hta.json");
+
+// The format of the JSON type catalogs. Users can add their own catalogs with the setting
+// "vbsLanguageServer.typeCatalogs" - their types replace shipped types with the same name.
+export interface VBSTypeCatalogDefinition {
+	// the objects are only available in scripts of this host, e.g. "asp" - in every script if it is missing
+	host?: string;
+	// objects which exist without being declared, like "Response" of ASP pages
+	objects?: VBSObjectDefinition[];
+	// the type of the objects returned by CreateObject("Scripting.FileSystemObject") - monikers
+	// of GetObject("winmgmts:\\.\root\cimv2") are written with their colon: "winmgmts:"
+	progIds?: { [progId: string]: string; };
+	types?: VBSTypeDefinition[];
+}
+
+const shippedCatalogs: VBSTypeCatalogDefinition[] = [ scriptingCatalog, wshCatalog, adodbCatalog, msxmlCatalog, wbemCatalog, aspCatalog, htaCatalog ];
+
+class VBSTypeCatalog {
+	types: { [lowerName: string]: VBSTypeDefinition; } = {};
+	progIds: { [lowerProgId: string]: string; } = {};
+	// the symbols of the members are created on first use
+	members: { [lowerName: string]: VBSSymbol[]; } = {};
+	objects: { [lowerHost: string]: VBSObjectDefinition[]; } = {};
+	objectSymbols: { [lowerHost: string]: VBSSymbol[]; } = {};
+
+	public Add(catalog: VBSTypeCatalogDefinition) {
+		if(catalog.objects != null) {
+			let host = catalog.host != null ? catalog.host.toLowerCase() : "";
+			this.objects[host] = (this.objects[host] || []).concat(catalog.objects);
+		}
+
+		if(catalog.progIds != null) {
+			Object.keys(catalog.progIds).forEach(progId => {
+				this.progIds[progId.toLowerCase()] = catalog.progIds[progId];
+			});
+		}
+
+		if(catalog.types != null) {
+			catalog.types.forEach(type => {
+				this.types[type.name.toLowerCase()] = type;
+			});
+		}
+	}
+}
+
+let typeCatalog: VBSTypeCatalog = null;
+let userCatalogs: VBSTypeCatalogDefinition[] = [];
+
+function GetTypeCatalog(): VBSTypeCatalog {
+	if(typeCatalog != null)
+		return typeCatalog;
+
+	typeCatalog = new VBSTypeCatalog();
+	typeCatalog.Add({ types: runtimeTypes });
+
+	shippedCatalogs.concat(userCatalogs).forEach(catalog => {
+		typeCatalog.Add(catalog);
+	});
+
+	return typeCatalog;
+}
+
+export function SetUserTypeCatalogs(catalogs: VBSTypeCatalogDefinition[]) {
+	userCatalogs = catalogs;
+	typeCatalog = null;
+}
+
+// throws if the file cannot be read or is no type catalog
+export function LoadTypeCatalogFile(filePath: string): VBSTypeCatalogDefinition {
+	let catalog: VBSTypeCatalogDefinition = JSON.parse(fs.readFileSync(filePath, "utf8"));
+
+	if(catalog == null || typeof catalog != "object")
+		throw new Error("The catalog has to be an object with 'progIds', 'types' and 'objects'.");
+
+	if(catalog.objects != null) {
+		catalog.objects.forEach((object, index) => {
+			if(object == null || typeof object.name != "string" || typeof object.type != "string")
+				throw new Error("Object #" + (index + 1) + " needs a 'name' and a 'type'.");
+		});
+	}
+
+	if(catalog.types != null) {
+		catalog.types.forEach((type, index) => {
+			if(type == null || typeof type.name != "string" || !Array.isArray(type.members))
+				throw new Error("Type #" + (index + 1) + " needs a 'name' and a list of 'members'.");
+		});
+	}
+
+	return catalog;
+}
+
+// the members of a type including the ones of its base types - null if the type is unknown
+export function GetTypeMembers(typeName: string): VBSSymbol[] {
+	let catalog = GetTypeCatalog();
+	let lowerName = typeName.toLowerCase();
+
+	if(catalog.members[lowerName] != null)
+		return catalog.members[lowerName];
+
+	let type = catalog.types[lowerName];
+
+	if(type == null)
+		return null;
+
+	// protects against types which extend themselves
+	catalog.members[lowerName] = [];
+
+	let members = type.members.map(member => {
+		let symbol = CreateProcedureSymbol(member.name, member.kind, member.args, member.returns, member.description, member.params);
+		symbol.parentName = type.name;
+		symbol.isDefault = member.isDefault === true;
+		return symbol;
+	});
+
+	let baseMembers = type.extends != null ? GetTypeMembers(type.extends) : null;
+
+	if(baseMembers != null) {
+		let names = members.map(function(member) { return member.name.toLowerCase(); });
+
+		members = members.concat(baseMembers.filter(function(member) {
+			return names.indexOf(member.name.toLowerCase()) == -1;
+		}));
+	}
+
+	catalog.members[lowerName] = members;
+	return members;
+}
+
+// the type of CreateObject(progId) and GetObject(moniker) - null if it is unknown
+export function GetTypeOfProgId(progId: string): string {
+	let progIds = GetTypeCatalog().progIds;
+	let lowerProgId = progId.trim().toLowerCase();
+	let monikerEnd = lowerProgId.indexOf(":");
+
+	if(monikerEnd > -1)
+		lowerProgId = lowerProgId.substring(0, monikerEnd + 1);
+
+	// "MSXML2.DOMDocument.6.0" is a version of "MSXML2.DOMDocument"
+	let candidates = [ lowerProgId, lowerProgId.replace(/(\.\d+)+$/, "") ];
+
+	for (let i = 0; i < candidates.length; i++) {
+		let type = progIds[candidates[i]];
+
+		if(type != null)
+			return type;
+	}
+
+	return null;
+}
+
+// the objects of the host and the ones of catalogs without host - the host is empty for plain script files
+export function GetHostObjects(host: string): VBSSymbol[] {
+	let catalog = GetTypeCatalog();
+	let lowerHost = host.toLowerCase();
+
+	if(catalog.objectSymbols[lowerHost] != null)
+		return catalog.objectSymbols[lowerHost];
+
+	let definitions = catalog.objects[""] || [];
+
+	if(lowerHost != "" && catalog.objects[lowerHost] != null)
+		definitions = definitions.concat(catalog.objects[lowerHost]);
+
+	catalog.objectSymbols[lowerHost] = definitions.map(function(definition) {
+		let symbol = new VBSObjectSymbol();
+		symbol.name = definition.name;
+		symbol.returnType = definition.type;
+		symbol.isBuiltin = true;
+		symbol.docComment = CreateDocComment(definition.description, null);
+		return symbol;
+	});
+
+	return catalog.objectSymbols[lowerHost];
+}
@@ -2,6 +2,10 @@ import * as ls from 'vscode-languageserver';
 import { VBSSymbol } from "./VBSSymbol";
 
 export class VBSClassSymbol extends VBSSymbol {
+	public GetDeclarationText(): string {
+		return "Class " + this.name;
+	}
+
 	public GetLsSymbolKind(): ls.SymbolKind {
 		return ls.SymbolKind.Class;
 	}
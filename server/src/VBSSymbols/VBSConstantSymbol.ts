@@ -2,6 +2,13 @@ import * as ls from 'vscode-languageserver';
 import { VBSSymbol } from "./VBSSymbol";
 
 export class VBSConstantSymbol extends VBSSymbol {
+	// the value expression as written in the document
+	public value: string = "";
+
+	public GetDeclarationText(): string {
+		return (this.visibility != "" ? this.visibility + " " : "") + "Const " + this.name + " = " + this.value;
+	}
+
 	public GetLsSymbolKind(): ls.SymbolKind {
 		return ls.SymbolKind.Constant;
 	}
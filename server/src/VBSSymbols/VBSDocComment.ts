@@ -0,0 +1,78 @@
+export class VBSDocCommentParameter {
+	public name: string = "";
+	public description: string = "";
+}
+
+// The block of comment lines directly above a declaration. Simple tags are supported:
+//   ' Adds two numbers.
+//   ' @param a the first number
+//   ' @returns the sum of both numbers
+export class VBSDocComment {
+	public description: string = "";
+	public params: VBSDocCommentParameter[] = [];
+	public returns: string = "";
+
+	public static Parse(lines: string[]): VBSDocComment {
+		let docComment = new VBSDocComment();
+		let descriptionLines: string[] = [];
+		// tags may continue in the following lines
+		let lastTag: VBSDocCommentParameter | string = null;
+
+		lines.forEach(line => {
+			let text = line.trim();
+			let paramMatch = /^@param\s+(\[[^\]]+\]|\S+)\s*(.*)$/i.exec(text);
+			let returnsMatch = /^@returns?\s*(.*)$/i.exec(text);
+
+			if(paramMatch != null) {
+				let param = new VBSDocCommentParameter();
+				param.name = paramMatch[1];
+				param.description = paramMatch[2];
+				docComment.params.push(param);
+				lastTag = param;
+			} else if(returnsMatch != null) {
+				docComment.returns = returnsMatch[1];
+				lastTag = "returns";
+			} else if(lastTag instanceof VBSDocCommentParameter && text != "") {
+				lastTag.description += " " + text;
+			} else if(lastTag == "returns" && text != "") {
+				docComment.returns += " " + text;
+			} else {
+				lastTag = null;
+				descriptionLines.push(line);
+			}
+		});
+
+		docComment.description = descriptionLines.join("\n").trim();
+
+		return docComment;
+	}
+
+	public GetParameterDescription(name: string): string {
+		let lowerName = name.toLowerCase();
+
+		for (let i = 0; i < this.params.length; i++) {
+			if(this.params[i].name.toLowerCase() == lowerName)
+				return this.params[i].description;
+		}
+
+		return null;
+	}
+
+	public ToMarkdown(): string {
+		let parts: string[] = [];
+
+		if(this.description != "")
+			parts.push(this.description.split("\n").join("  \n"));
+
+		if(this.params.length > 0) {
+			parts.push(this.params.map(function(param) {
+				return "*@param* `" + param.name + "`" + (param.description != "" ? " — " + param.description : "");
+			}).join("  \n"));
+		}
+
+		if(this.returns != "")
+			parts.push("*@returns* " + this.returns);
+
+		return parts.join("\n\n");
+	}
+}
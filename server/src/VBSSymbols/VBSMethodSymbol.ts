@@ -1,21 +1,54 @@
 import * as ls from 'vscode-languageserver';
-import { VBSSymbol } from "./VBSSymbol";
+import { VBSSymbol, VBSCallContext, SplitArgs, GetParameterName } from "./VBSSymbol";
 
 export class VBSMethodSymbol extends VBSSymbol {
 	public GetLsName(): string {
 		return this.name + " (" + this.args + ")";
 	}
 	
+	public GetDeclarationText(): string {
+		let declaration = (this.visibility != "" ? this.visibility + " " : "") + (this.isDefault ? "Default " : "") + this.type + " " + this.name + "(" + this.args + ")";
+
+		if(this.returnType != "")
+			declaration += " As " + this.returnType;
+
+		return declaration;
+	}
+
 	public GetLsSymbolKind(): ls.SymbolKind {
 		return ls.SymbolKind.Method;
 	}
 
-	public GetLsCompletionItem(): ls.CompletionItem {
+	public GetLsSignatureInformation(): ls.SignatureInformation {
+		return this.CreateSignatureInformation(SplitArgs(this.args));
+	}
+
+	// one placeholder per parameter - the documentation is added by completionItem/resolve
+	public GetLsCompletionItem(callContext: VBSCallContext = VBSCallContext.Statement): ls.CompletionItem {
 		let item = ls.CompletionItem.create(this.name);
-		item.documentation = this.visibility + " " + this.type + " " + this.name + "(" + this.args + ")"
+		let placeholders = SplitArgs(this.args).map(function(parameter, index) {
+			return "${" + (index + 1) + ":" + EscapeSnippetText(GetParameterName(parameter)) + "}";
+		});
+
 		item.filterText = this.name;
-		item.insertText = this.name + "(" + this.args + ")";
 		item.kind = ls.CompletionItemKind.Method;
+		item.insertTextFormat = ls.InsertTextFormat.Snippet;
+
+		let isSub = this.type.toLowerCase() == "sub";
+
+		// a Sub takes its arguments without parentheses: "Log msg, level" - but "Call Log(msg, level)".
+		// A Sub inside of an expression is an error the user has to see, so it gets no arguments.
+		if(placeholders.length == 0 || (isSub && callContext == VBSCallContext.Expression))
+			item.insertText = EscapeSnippetText(this.name);
+		else if(isSub && callContext == VBSCallContext.Statement)
+			item.insertText = EscapeSnippetText(this.name) + " " + placeholders.join(", ");
+		else
+			item.insertText = EscapeSnippetText(this.name) + "(" + placeholders.join(", ") + ")";
+
 		return item;
 	}
+}
+
+function EscapeSnippetText(text: string): string {
+	return text.replace(/[$}\\]/g, "\\$&");
 }
\ No newline at end of file
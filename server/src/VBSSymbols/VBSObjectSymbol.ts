@@ -0,0 +1,21 @@
+import * as ls from 'vscode-languageserver';
+import { VBSSymbol } from "./VBSSymbol";
+
+// an object which exists without being declared, like "Err" - its type is the returnType
+export class VBSObjectSymbol extends VBSSymbol {
+	public GetDeclarationText(): string {
+		return this.name + (this.returnType != "" ? " As " + this.returnType : "");
+	}
+
+	public GetLsSymbolKind(): ls.SymbolKind {
+		return ls.SymbolKind.Object;
+	}
+
+	public GetLsCompletionItem(): ls.CompletionItem {
+		let item = ls.CompletionItem.create(this.name);
+		item.filterText = this.name;
+		item.insertText = this.name;
+		item.kind = ls.CompletionItemKind.Variable;
+		return item;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,7 @@
+import { VBSVariableSymbol } from "./VBSVariableSymbol";
+
+export class VBSParameterSymbol extends VBSVariableSymbol {
+	public GetDeclarationText(): string {
+		return (this.type != "" ? this.type + " " : "") + this.name;
+	}
+}
\ No newline at end of file
@@ -1,5 +1,5 @@
 import * as ls from 'vscode-languageserver';
-import { VBSSymbol } from "./VBSSymbol";
+import { VBSSymbol, SplitArgs } from "./VBSSymbol";
 
 export class VBSPropertySymbol extends VBSSymbol {
 	public GetLsName(): string {
@@ -9,35 +9,37 @@ export class VBSPropertySymbol extends VBSSymbol {
 			return this.type + " " + this.name;
 	}
 
+	public GetDeclarationText(): string {
+		let declaration = (this.visibility != "" ? this.visibility + " " : "") + (this.isDefault ? "Default " : "") + "Property " + this.type + " " + this.name;
+
+		if(this.args != "")
+			declaration += "(" + this.args + ")";
+
+		if(this.returnType != "")
+			declaration += " As " + this.returnType;
+
+		return declaration;
+	}
+
 	public GetLsSymbolKind(): ls.SymbolKind {
 		return ls.SymbolKind.Property;
 	}
 
+	public GetLsSignatureInformation(): ls.SignatureInformation {
+		let parameters = SplitArgs(this.args);
+
+		// the last parameter of "Let" and "Set" is the assigned value: "obj.Item(key) = value"
+		if(this.type.toLowerCase() != "get")
+			parameters.pop();
+
+		return this.CreateSignatureInformation(parameters);
+	}
+
 	public GetLsCompletionItem(): ls.CompletionItem {
 		let item = ls.CompletionItem.create(this.name);
-		
-		item.documentation = this.GetDocu();
 		item.filterText = this.name;
 		item.insertText = this.name;
 		item.kind = ls.CompletionItemKind.Property;
 		return item;
 	}
-
-	private GetDocu(): string {
-		let docu = "";
-		
-		if(this.visibility != null)
-			docu += this.visibility.trim();
-
-		if(this.type != null)
-			docu += this.type.trim();
-
-		if(this.name != null)
-			docu += this.name.trim();
-
-		if(this.args != null)
-			docu += "(" + this.args + ")";
-
-		return docu.trim();
-	}
 }
\ No newline at end of file
@@ -0,0 +1,113 @@
+import * as ls from 'vscode-languageserver';
+import * as ast from "../VBSParser/VBSSyntaxTree";
+import { VBSTokenKind } from "../VBSParser/VBSToken";
+import { VBSSymbol } from "./VBSSymbol";
+import { VBSSymbolResolver } from "./VBSSymbolResolver";
+import { NormalizeUri } from "../VBSWorkspace/VBSUri";
+
+export class VBSReference {
+	public range: ls.Range = null;
+	public symbol: VBSSymbol = null;
+	public isDeclaration: boolean = false;
+	public isWrite: boolean = false;
+	// false if the reference is a member of an object whose class is unknown
+	public isCertain: boolean = true;
+}
+
+// Finds every usage of the given symbols in a document. Only identifier tokens are
+// looked at, so names inside of string literals and comments are never reported.
+export function FindReferences(resolver: VBSSymbolResolver, targets: VBSSymbol[]): VBSReference[] {
+	let program = resolver.program;
+	let references: VBSReference[] = [];
+
+	if(targets.length == 0)
+		return references;
+
+	let names = targets.map(function(symbol) { return symbol.name.toLowerCase(); });
+	let writes = GetWritePositions(program);
+	let uri = NormalizeUri(resolver.uri);
+
+	for (let i = 0; i < program.tokens.length; i++) {
+		let token = program.tokens[i];
+
+		if(token.kind != VBSTokenKind.Identifier || names.indexOf(token.value.toLowerCase()) == -1)
+			continue;
+
+		let resolved = resolver.Resolve(resolver.GetIdentifier(i));
+		let symbol = FindFirst(resolved.symbols, targets);
+
+		if(symbol == null)
+			continue;
+
+		let reference = new VBSReference();
+		reference.range = token.range;
+		reference.symbol = symbol;
+		// a name of an including file at the position of the declaration is no declaration
+		reference.isDeclaration = !symbol.isBuiltin && NormalizeUri(symbol.nameLocation.uri) == uri && IsSameRange(symbol.nameLocation.range, token.range);
+		reference.isWrite = writes[PositionKey(token.range.start)] === true;
+		reference.isCertain = resolved.isCertain;
+		references.push(reference);
+	}
+
+	return references;
+}
+
+function FindFirst(candidates: VBSSymbol[], targets: VBSSymbol[]): VBSSymbol {
+	for (let i = 0; i < candidates.length; i++) {
+		if(targets.indexOf(candidates[i]) > -1)
+			return candidates[i];
+	}
+
+	return null;
+}
+
+function IsSameRange(a: ls.Range, b: ls.Range): boolean {
+	return a.start.line == b.start.line && a.start.character == b.start.character
+		&& a.end.line == b.end.line && a.end.character == b.end.character;
+}
+
+function PositionKey(position: ls.Position): string {
+	return position.line + ":" + position.character;
+}
+
+// positions of all names which get a new value: assignments, "Set", "ReDim" and loop variables
+function GetWritePositions(program: ast.VBSProgram): { [position: string]: boolean; } {
+	let writes: { [position: string]: boolean; } = {};
+
+	ast.ForEachNode(program, function(node) {
+		let targets: ast.VBSExpression[] = [];
+
+		if(node instanceof ast.VBSAssignmentStatement) {
+			targets.push(node.target);
+		} else if(node instanceof ast.VBSForStatement || node instanceof ast.VBSForEachStatement) {
+			targets.push(node.variable);
+		} else if(node instanceof ast.VBSReDimStatement) {
+			node.declarators.forEach(declarator => {
+				writes[PositionKey(declarator.nameRange.start)] = true;
+			});
+		}
+
+		targets.forEach(target => {
+			let range = GetAssignedNameRange(target);
+
+			if(range != null)
+				writes[PositionKey(range.start)] = true;
+		});
+	});
+
+	return writes;
+}
+
+function GetAssignedNameRange(target: ast.VBSExpression): ls.Range {
+	// "arr(1) = x" changes the content of "arr"
+	while(target instanceof ast.VBSCallExpression)
+		target = target.callee;
+
+	if(target instanceof ast.VBSIdentifierExpression)
+		return target.range;
+
+	if(target instanceof ast.VBSMemberExpression)
+		return target.nameRange;
+
+	return null;
+}
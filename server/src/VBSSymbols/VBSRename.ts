@@ -0,0 +1,146 @@
+import * as ls from 'vscode-languageserver';
+import { IsKeyword } from "../VBSParser/VBSToken";
+import { VBSSymbol } from "./VBSSymbol";
+import { VBSSymbolResolver, VBSIdentifier } from "./VBSSymbolResolver";
+import { FindReferences } from "./VBSReferenceFinder";
+import { UriToPath, NormalizeUri } from "../VBSWorkspace/VBSUri";
+import * as path from 'path';
+
+export function PrepareRename(resolver: VBSSymbolResolver, position: ls.Position): ls.Range | ls.ResponseError<void> {
+	let identifier = resolver.GetIdentifierAt(position);
+	let error = ValidateIdentifier(resolver, identifier);
+
+	if(error != null)
+		return new ls.ResponseError<void>(ls.ErrorCodes.InvalidRequest, error);
+
+	return identifier.token.range;
+}
+
+// getResolvers returns the resolvers of the files which can see the symbols - the one of the
+// document first. Every file gets the edits of its own references.
+export function Rename(resolver: VBSSymbolResolver, position: ls.Position, newName: string, getResolvers: (targets: VBSSymbol[]) => VBSSymbolResolver[]): ls.WorkspaceEdit | ls.ResponseError<void> {
+	let identifier = resolver.GetIdentifierAt(position);
+	let error = ValidateIdentifier(resolver, identifier);
+
+	if(error == null)
+		error = ValidateNewName(newName);
+
+	if(error != null)
+		return new ls.ResponseError<void>(ls.ErrorCodes.InvalidRequest, error);
+
+	let targets = resolver.Resolve(identifier).symbols;
+	let resolvers = getResolvers(targets);
+	// the scope of the symbols is known by the file which declares them
+	let declaringResolver = resolvers.filter(function(fileResolver) { return NormalizeUri(fileResolver.uri) == NormalizeUri(targets[0].nameLocation.uri); })[0];
+
+	error = FindNameClash(declaringResolver != null ? declaringResolver : resolver, targets, newName);
+
+	if(error != null)
+		return new ls.ResponseError<void>(ls.ErrorCodes.InvalidRequest, error);
+
+	let changes: { [uri: string]: ls.TextEdit[]; } = {};
+
+	for (let i = 0; i < resolvers.length; i++) {
+		let fileResolver = resolvers[i];
+		// members of objects with an unknown class might belong to a completely different object
+		let references = FindReferences(fileResolver, targets).filter(function(reference) { return reference.isCertain; });
+
+		if(references.length == 0)
+			continue;
+
+		// the other files are named in the message
+		let fileName = fileResolver != resolver ? path.basename(UriToPath(fileResolver.uri)) : "";
+
+		error = FindShadowing(fileResolver, references.filter(function(reference) { return !IsMemberAccess(fileResolver, reference.range); }), targets, newName, fileName);
+
+		if(error != null)
+			return new ls.ResponseError<void>(ls.ErrorCodes.InvalidRequest, error);
+
+		changes[fileResolver.uri] = references.map(function(reference) {
+			return ls.TextEdit.replace(reference.range, newName);
+		});
+	}
+
+	return { changes: changes };
+}
+
+function ValidateIdentifier(resolver: VBSSymbolResolver, identifier: VBSIdentifier): string {
+	if(identifier == null)
+		return "You cannot rename this element.";
+
+	let token = identifier.token;
+
+	if(!identifier.isMemberAccess && token.text[0] != "[" && IsKeyword(token.text))
+		return "'" + token.text + "' is a VBScript keyword and cannot be renamed.";
+
+	let resolved = resolver.Resolve(identifier);
+
+	if(resolved.symbols.length == 0)
+		return "'" + token.value + "' is not declared in this document.";
+
+	if(resolved.symbols[0].isBuiltin)
+		return "'" + resolved.symbols[0].name + "' is part of the VBScript runtime and cannot be renamed.";
+
+	if(!resolved.isCertain)
+		return "The class of the object is unknown - rename the member at its declaration instead.";
+
+	return null;
+}
+
+function ValidateNewName(newName: string): string {
+	if(!/^([a-zA-Z][a-zA-Z0-9_]*|\[[^\]\r\n]+\])$/.test(newName))
+		return "'" + newName + "' is not a valid VBScript identifier.";
+
+	if(newName.length > 255)
+		return "VBScript identifiers must not be longer than 255 characters.";
+
+	if(newName[0] != "[" && IsKeyword(newName))
+		return "'" + newName + "' is a VBScript keyword.";
+
+	return null;
+}
+
+function GetPlainName(name: string): string {
+	if(name[0] == "[")
+		return name.substring(1, name.length - 1);
+
+	return name;
+}
+
+function FindNameClash(resolver: VBSSymbolResolver, targets: VBSSymbol[], newName: string): string {
+	let plainName = GetPlainName(newName);
+
+	for (let i = 0; i < targets.length; i++) {
+		let node = resolver.symbolTree.FindNode(targets[i]);
+
+		if(node == null || node.parent == null)
+			continue;
+
+		let clashes = node.parent.FindDirectChildren(plainName).filter(function(symbol) {
+			return targets.indexOf(symbol) == -1;
+		});
+
+		if(clashes.length > 0)
+			return "'" + clashes[0].name + "' is already declared in this scope.";
+	}
+
+	return null;
+}
+
+function FindShadowing(resolver: VBSSymbolResolver, references: { range: ls.Range }[], targets: VBSSymbol[], newName: string, fileName: string): string {
+	let plainName = GetPlainName(newName);
+
+	for (let i = 0; i < references.length; i++) {
+		let visible = resolver.ResolveName(plainName, references[i].range.start);
+
+		if(visible.length > 0 && targets.indexOf(visible[0]) == -1)
+			return "'" + visible[0].name + "' would hide the renamed symbol in line " + (references[i].range.start.line + 1) + (fileName != "" ? " of '" + fileName + "'" : "") + ".";
+	}
+
+	return null;
+}
+
+function IsMemberAccess(resolver: VBSSymbolResolver, range: ls.Range): boolean {
+	let identifier = resolver.GetIdentifierAt(range.start);
+	return identifier != null && identifier.isMemberAccess;
+}
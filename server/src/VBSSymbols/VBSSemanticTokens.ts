@@ -0,0 +1,110 @@
+import * as ls from 'vscode-languageserver';
+import { VBSTokenKind, IsKeyword, ComparePositions } from "../VBSParser/VBSToken";
+import { VBSSymbol } from "./VBSSymbol";
+import { VBSClassSymbol } from "./VBSClassSymbol";
+import { VBSMethodSymbol } from "./VBSMethodSymbol";
+import { VBSPropertySymbol } from "./VBSPropertySymbol";
+import { VBSMemberSymbol } from "./VBSMemberSymbol";
+import { VBSParameterSymbol } from "./VBSParameterSymbol";
+import { VBSConstantSymbol } from "./VBSConstantSymbol";
+import { VBSSymbolResolver } from "./VBSSymbolResolver";
+import { GiveWay, sliceSize } from "../VBSCancellation";
+
+// the order of the names is the number of the type or the bit of the modifier
+const tokenTypes: string[] = [ "class", "function", "method", "property", "parameter", "variable" ];
+// "local" marks variables of a procedure, "default" the default member of a class
+const tokenModifiers: string[] = [ "declaration", "readonly", "defaultLibrary", "local", "default" ];
+
+export const semanticTokensLegend: ls.SemanticTokensLegend = {
+	tokenTypes: tokenTypes,
+	tokenModifiers: tokenModifiers
+};
+
+// Marks every name which refers to a symbol. Names which cannot be resolved (undeclared variables,
+// members of unknown objects) are left to the grammar of the client. Null if the request is cancelled.
+export async function GetSemanticTokens(resolver: VBSSymbolResolver, uri: string, range: ls.Range = null, cancellationToken: ls.CancellationToken = ls.CancellationToken.None): Promise<ls.SemanticTokens> {
+	let builder = new ls.SemanticTokensBuilder();
+	let tokens = resolver.program.tokens;
+	let locals = new Map<VBSSymbol, boolean>();
+
+	for (let i = 0; i < tokens.length; i++) {
+		if(i > 0 && i % sliceSize == 0 && await GiveWay(cancellationToken))
+			return null;
+
+		let token = tokens[i];
+
+		if(token.kind != VBSTokenKind.Identifier)
+			continue;
+
+		if(range != null && (ComparePositions(token.range.end, range.start) < 0 || ComparePositions(token.range.start, range.end) > 0))
+			continue;
+
+		let identifier = resolver.GetIdentifier(i);
+
+		// members may have names like "End" or "Set"
+		if(!identifier.isMemberAccess && IsKeyword(token.text))
+			continue;
+
+		let resolved = resolver.Resolve(identifier);
+
+		if(resolved.symbols.length == 0 || !resolved.isCertain)
+			continue;
+
+		let symbol = resolved.symbols[0];
+
+		if(!locals.has(symbol))
+			locals.set(symbol, resolver.IsLocal(symbol));
+
+		let tokenType = GetTokenType(symbol, locals.get(symbol));
+		let modifiers: string[] = [];
+
+		if(!symbol.isBuiltin && symbol.nameLocation.uri == uri && ComparePositions(symbol.nameLocation.range.start, token.range.start) == 0)
+			modifiers.push("declaration");
+
+		if(symbol instanceof VBSConstantSymbol)
+			modifiers.push("readonly");
+
+		if(symbol.isBuiltin)
+			modifiers.push("defaultLibrary");
+
+		if(locals.get(symbol))
+			modifiers.push("local");
+
+		if(symbol.isDefault)
+			modifiers.push("default");
+
+		builder.push(token.range.start.line, token.range.start.character, token.end - token.start, tokenTypes.indexOf(tokenType), GetModifierBits(modifiers));
+	}
+
+	return builder.build();
+}
+
+function GetTokenType(symbol: VBSSymbol, isLocal: boolean): string {
+	if(symbol instanceof VBSClassSymbol)
+		return "class";
+
+	if(symbol instanceof VBSPropertySymbol || symbol instanceof VBSMemberSymbol)
+		return "property";
+
+	if(symbol instanceof VBSMethodSymbol)
+		return symbol.parentName != "" ? "method" : "function";
+
+	if(symbol instanceof VBSParameterSymbol)
+		return "parameter";
+
+	// "Dim" in the body of a class declares a public field
+	if(!isLocal && !symbol.isBuiltin && symbol.parentName != "" && !(symbol instanceof VBSConstantSymbol))
+		return "property";
+
+	return "variable";
+}
+
+function GetModifierBits(modifiers: string[]): number {
+	let bits = 0;
+
+	modifiers.forEach(modifier => {
+		bits |= 1 << tokenModifiers.indexOf(modifier);
+	});
+
+	return bits;
+}
@@ -0,0 +1,139 @@
+import * as ls from 'vscode-languageserver';
+import { VBSToken, VBSTokenKind, IsKeyword, ComparePositions, FindLastTokenBefore } from "../VBSParser/VBSToken";
+import { VBSMethodSymbol } from "./VBSMethodSymbol";
+import { VBSSymbolResolver } from "./VBSSymbolResolver";
+
+// Finds the call whose arguments are typed at the position. Both "Foo(a, b)" and the
+// parenthesis-free "Foo a, b" of Sub calls are supported.
+export function GetSignatureHelp(resolver: VBSSymbolResolver, position: ls.Position): ls.SignatureHelp {
+	let tokens = resolver.program.tokens;
+	let index = FindLastTokenBefore(tokens, position);
+
+	if(index == -1 || tokens[index].kind == VBSTokenKind.Comment)
+		return null;
+
+	let depth = 0;
+	let commas = 0;
+
+	for (; index >= 0; index--) {
+		let token = tokens[index];
+
+		if(IsStatementStart(token))
+			break;
+
+		if(token.IsOperator(")")) {
+			depth++;
+		} else if(token.IsOperator("(")) {
+			if(depth > 0) {
+				depth--;
+				continue;
+			}
+
+			let signatures = GetSignatures(resolver, index - 1, false);
+
+			if(signatures.length > 0)
+				return CreateSignatureHelp(signatures, commas);
+
+			// just a parenthesized expression or an array - the call might be further outside
+			commas = 0;
+		} else if(token.IsOperator(",") && depth == 0) {
+			commas++;
+		}
+	}
+
+	let calleeIndex = FindStatementCallee(tokens, index + 1, position);
+
+	if(calleeIndex == -1)
+		return null;
+
+	let signatures = GetSignatures(resolver, calleeIndex, true).filter(function(signature) {
+		return signature.parameters.length > 0;
+	});
+
+	if(signatures.length == 0)
+		return null;
+
+	return CreateSignatureHelp(signatures, commas);
+}
+
+function CreateSignatureHelp(signatures: ls.SignatureInformation[], activeParameter: number): ls.SignatureHelp {
+	return {
+		signatures: signatures,
+		activeSignature: 0,
+		activeParameter: activeParameter
+	};
+}
+
+function IsStatementStart(token: VBSToken): boolean {
+	return token.kind == VBSTokenKind.NewLine || token.kind == VBSTokenKind.Colon || token.kind == VBSTokenKind.Comment
+		|| token.Is("then") || token.Is("else");
+}
+
+// "Foo", "obj.Foo", "Me.Foo" or ".Foo" at the start of a statement followed by a space
+// and the arguments - returns the index of the name token or -1 if this is no call
+function FindStatementCallee(tokens: VBSToken[], start: number, position: ls.Position): number {
+	let index = start;
+
+	// ".Foo" inside of a "With" block
+	if(index < tokens.length && tokens[index].IsOperator("."))
+		index++;
+
+	while(index + 2 < tokens.length && tokens[index].kind == VBSTokenKind.Identifier
+		&& tokens[index + 1].IsOperator(".") && tokens[index + 1].start == tokens[index].end)
+		index += 2;
+
+	if(index >= tokens.length)
+		return -1;
+
+	let callee = tokens[index];
+
+	if(callee.kind != VBSTokenKind.Identifier || IsReservedName(callee))
+		return -1;
+
+	// the arguments start behind the name
+	if(ComparePositions(callee.range.end, position) >= 0)
+		return -1;
+
+	let next = tokens[index + 1];
+
+	// "x = Foo" is an assignment and "Foo(a)" is handled as parenthesized call
+	if(next != null && (next.IsOperator("=") || next.IsOperator("(") && next.start == callee.end))
+		return -1;
+
+	return index;
+}
+
+function IsReservedName(token: VBSToken): boolean {
+	return token.text[0] != "[" && IsKeyword(token.text);
+}
+
+function GetSignatures(resolver: VBSSymbolResolver, calleeIndex: number, isStatement: boolean): ls.SignatureInformation[] {
+	if(calleeIndex < 0)
+		return [];
+
+	let token = resolver.program.tokens[calleeIndex];
+
+	if(token.kind != VBSTokenKind.Identifier || IsReservedName(token))
+		return [];
+
+	let symbols = resolver.Resolve(resolver.GetIdentifier(calleeIndex)).symbols;
+
+	// properties cannot be called without parentheses
+	if(isStatement)
+		symbols = symbols.filter(function(symbol) { return symbol instanceof VBSMethodSymbol; });
+
+	let signatures: ls.SignatureInformation[] = [];
+	let labels: string[] = [];
+
+	symbols.forEach(symbol => {
+		let signature = symbol.GetLsSignatureInformation();
+
+		// "Property Get" and "Property Let" usually share their parameters
+		if(signature != null && labels.indexOf(signature.label) == -1) {
+			signatures.push(signature);
+			labels.push(signature.label);
+		}
+	});
+
+	return signatures;
+}
@@ -1,4 +1,15 @@
 import * as ls from 'vscode-languageserver';
+import { VBSDocComment } from "./VBSDocComment";
+
+// where a procedure is completed - see GetCallContext
+export enum VBSCallContext {
+	// "Log msg"
+	Statement,
+	// "Call Log(msg)"
+	Call,
+	// "x = Calc(a)" - a Sub cannot be used here
+	Expression
+}
 
 export class VBSSymbol {
 	public visibility: string = "";
@@ -9,6 +20,14 @@ export class VBSSymbol {
 	public nameLocation: ls.Location = null;
 	
 	public parentName: string = "";
+	public docComment: VBSDocComment = null;
+	// "Public Default Function" - the member used when the object itself is used as value
+	public isDefault: boolean = false;
+
+	// part of the VBScript runtime instead of a document - there is no location
+	public isBuiltin: boolean = false;
+	// the type of the value, e.g. "String" - only known for built-in symbols
+	public returnType: string = "";
 
 	public GetLsName(): string {
 		return this.name;
@@ -19,7 +38,88 @@ export class VBSSymbol {
 		return ls.SymbolKind.File;
 	}
 
-	public GetLsCompletionItem(): ls.CompletionItem {
+	// the declaration as it would be written in VBScript
+	public GetDeclarationText(): string {
+		return this.name;
+	}
+
+	public GetHoverMarkdown(): string {
+		let documentation = this.GetDocumentationMarkdown();
+		return "```vbs\n" + this.GetDeclarationText() + "\n```" + (documentation != "" ? "\n\n" + documentation : "");
+	}
+
+	// where the symbol comes from and its doc comment - the declaration is shown separately
+	public GetDocumentationMarkdown(): string {
+		let parts: string[] = [];
+		let origin: string[] = [];
+
+		if(this.parentName != null && this.parentName != "")
+			origin.push("in `" + this.parentName + "`");
+
+		if(this.isBuiltin)
+			origin.push("VBScript runtime");
+		else if(this.nameLocation != null)
+			origin.push("declared in " + GetFileName(this.nameLocation.uri));
+
+		if(origin.length > 0)
+			parts.push("*" + origin.join(", ") + "*");
+
+		if(this.docComment != null) {
+			let docu = this.docComment.ToMarkdown();
+
+			if(docu != "")
+				parts.push(docu);
+		}
+
+		return parts.join("\n\n");
+	}
+
+	// the signature shown while typing the arguments of a call - null if the symbol cannot be called
+	public GetLsSignatureInformation(): ls.SignatureInformation {
+		return null;
+	}
+
+	protected CreateSignatureInformation(parameters: string[]): ls.SignatureInformation {
+		let label = this.name + "(";
+		let lsParameters: ls.ParameterInformation[] = [];
+
+		parameters.forEach((parameter, index) => {
+			if(index > 0)
+				label += ", ";
+
+			// offsets instead of the parameter text because names like "a" are part of the label more than once
+			let start = label.length;
+			label += parameter;
+
+			let lsParameter = ls.ParameterInformation.create([start, label.length]);
+			let description = this.docComment != null ? this.docComment.GetParameterDescription(GetParameterName(parameter)) : null;
+
+			if(description != null && description != "")
+				lsParameter.documentation = description;
+
+			lsParameters.push(lsParameter);
+		});
+
+		label += ")";
+
+		let signature = ls.SignatureInformation.create(label);
+		signature.parameters = lsParameters;
+
+		if(this.docComment != null) {
+			let docu = this.docComment.description;
+
+			if(this.docComment.returns != "")
+				docu += (docu != "" ? "\n\n" : "") + "*@returns* " + this.docComment.returns;
+
+			if(docu != "")
+				signature.documentation = { kind: ls.MarkupKind.Markdown, value: docu };
+		}
+
+		return signature;
+	}
+
+	// the call context only matters for procedures
+	public GetLsCompletionItem(callContext: VBSCallContext = VBSCallContext.Statement): ls.CompletionItem {
 		let item = ls.CompletionItem.create(this.name);
 		item.filterText = this.name;
 		item.insertText = this.name;
@@ -44,14 +144,44 @@ export class VBSSymbol {
 		return lsSymbols;
 	}
 
-	public static GetLanguageServerCompletionItems(symbols: VBSSymbol[]): ls.CompletionItem[] {
+	public GetLsDocumentSymbol(children: ls.DocumentSymbol[]): ls.DocumentSymbol {
+		let name = this.GetLsName().trim();
+
+		// clients reject symbols without a name, e.g. of an unfinished "Sub" statement
+		if(name == "")
+			name = "?";
+
+		return ls.DocumentSymbol.create(name, undefined, this.GetLsSymbolKind(), this.symbolRange, this.nameLocation.range, children);
+	}
+
+	public static GetLanguageServerCompletionItems(symbols: VBSSymbol[], callContext: VBSCallContext = VBSCallContext.Statement): ls.CompletionItem[] {
 		let completionItems: ls.CompletionItem[] = [];
 
 		symbols.forEach(symbol => {
-			let lsItem = symbol.GetLsCompletionItem();
+			let lsItem = symbol.GetLsCompletionItem(callContext);
 			completionItems.push(lsItem);
 		});
 
 		return completionItems;
 	}
-}
\ No newline at end of file
+}
+
+// "ByVal [my value]" => "[my value]", "ByRef arr()" => "arr"
+export function GetParameterName(parameter: string): string {
+	let match = /(\[[^\]]+\]|[a-zA-Z][a-zA-Z0-9_]*)\s*(\(\s*\))?\s*$/.exec(parameter);
+	return match != null ? match[1] : parameter.trim();
+}
+
+// the parameters of an argument list as they are written, e.g. "ByVal a, ByRef b()" => ["ByVal a", "ByRef b()"]
+export function SplitArgs(args: string): string[] {
+	if(args == null || args.trim() == "")
+		return [];
+
+	return args.split(",").map(function(parameter) {
+		return parameter.trim().replace(/\s+/g, " ");
+	});
+}
+
+function GetFileName(uri: string): string {
+	return decodeURIComponent(uri.substring(uri.lastIndexOf("/") + 1));
+}
@@ -0,0 +1,200 @@
+import * as ls from 'vscode-languageserver';
+import * as ast from "../VBSParser/VBSSyntaxTree";
+import { VBSTokenKind } from "../VBSParser/VBSToken";
+import { VBSSymbol } from "./VBSSymbol";
+import { VBSMethodSymbol } from './VBSMethodSymbol';
+import { VBSPropertySymbol } from './VBSPropertySymbol';
+import { VBSClassSymbol } from './VBSClassSymbol';
+import { VBSMemberSymbol } from './VBSMemberSymbol';
+import { VBSVariableSymbol } from './VBSVariableSymbol';
+import { VBSParameterSymbol } from './VBSParameterSymbol';
+import { VBSConstantSymbol } from './VBSConstantSymbol';
+import { VBSDocComment } from './VBSDocComment';
+
+class CollectorScope {
+	className: string = null;
+	procedureName: string = null;
+
+	public GetParentName(): string {
+		if(this.procedureName != null)
+			return this.procedureName;
+
+		if(this.className != null)
+			return this.className;
+
+		return "";
+	}
+}
+
+class CollectorContext {
+	uri: string;
+	symbols: VBSSymbol[] = [];
+	// text of every line which contains nothing but a comment
+	commentLines: { [line: number]: string; } = {};
+}
+
+export function CollectSymbols(program: ast.VBSProgram, uri: string): VBSSymbol[] {
+	let context = new CollectorContext();
+	context.uri = uri;
+	context.commentLines = GetCommentLines(program);
+
+	VisitNodes(program.statements, new CollectorScope(), context);
+
+	return context.symbols;
+}
+
+function GetCommentLines(program: ast.VBSProgram): { [line: number]: string; } {
+	let commentLines: { [line: number]: string; } = {};
+
+	for (let i = 0; i < program.tokens.length; i++) {
+		let token = program.tokens[i];
+
+		if(token.kind != VBSTokenKind.Comment)
+			continue;
+
+		if(i > 0 && program.tokens[i - 1].kind != VBSTokenKind.NewLine)
+			continue;
+
+		let text = token.text[0] == "'" ? token.text.substring(1) : token.text.substring(3);
+		commentLines[token.range.start.line] = text.replace(/^ /, "");
+	}
+
+	return commentLines;
+}
+
+function GetDocComment(node: ast.VBSNode, context: CollectorContext): VBSDocComment {
+	let lines: string[] = [];
+
+	for (let line = node.range.start.line - 1; context.commentLines[line] != null; line--)
+		lines.unshift(context.commentLines[line]);
+
+	if(lines.length == 0)
+		return null;
+
+	return VBSDocComment.Parse(lines);
+}
+
+function VisitNodes(nodes: ast.VBSNode[], scope: CollectorScope, context: CollectorContext) {
+	for (let i = 0; i < nodes.length; i++) {
+		VisitNode(nodes[i], scope, context);
+	}
+}
+
+function VisitNode(node: ast.VBSNode, scope: CollectorScope, context: CollectorContext) {
+	if(node instanceof ast.VBSClassDeclaration) {
+		context.symbols.push(GetClassSymbol(node, context));
+
+		let classScope = new CollectorScope();
+		classScope.className = node.name;
+		VisitNodes(node.body, classScope, context);
+	} else if(node instanceof ast.VBSMethodDeclaration || node instanceof ast.VBSPropertyDeclaration) {
+		let symbol = GetProcedureSymbol(node, scope, context);
+		context.symbols.push(symbol);
+
+		let procedureScope = new CollectorScope();
+		procedureScope.className = scope.className;
+		procedureScope.procedureName = node.name;
+
+		AddArray(context.symbols, GetParameterSymbols(node, symbol.docComment, context));
+		VisitNodes(node.body, procedureScope, context);
+	} else if(node instanceof ast.VBSVariableDeclaration) {
+		AddArray(context.symbols, GetVariableSymbols(node, scope, context));
+	} else if(node instanceof ast.VBSConstDeclaration) {
+		AddArray(context.symbols, GetConstantSymbols(node, scope, context));
+	} else if(node instanceof ast.VBSStatement || node instanceof ast.VBSElseIfClause || node instanceof ast.VBSCaseClause) {
+		// declarations can be nested in control flow blocks
+		VisitNodes(node.GetChildren(), scope, context);
+	}
+}
+
+function AddArray(target: VBSSymbol[], source: VBSSymbol[]) {
+	source.forEach(element => {
+		target.push(element);
+	});
+}
+
+function GetClassSymbol(node: ast.VBSClassDeclaration, context: CollectorContext): VBSSymbol {
+	let symbol = new VBSClassSymbol();
+	symbol.name = node.name;
+	symbol.nameLocation = ls.Location.create(context.uri, node.nameRange != null ? node.nameRange : node.keywordRange);
+	symbol.symbolRange = node.range;
+	symbol.docComment = GetDocComment(node, context);
+	return symbol;
+}
+
+function GetProcedureSymbol(node: ast.VBSProcedureDeclaration, scope: CollectorScope, context: CollectorContext): VBSSymbol {
+	let symbol: VBSSymbol;
+
+	if(node instanceof ast.VBSMethodDeclaration) {
+		symbol = new VBSMethodSymbol();
+		symbol.type = node.methodType;
+	} else {
+		symbol = new VBSPropertySymbol();
+		symbol.type = (<ast.VBSPropertyDeclaration>node).accessor;
+	}
+
+	symbol.visibility = node.visibility;
+	symbol.isDefault = node.isDefault;
+	symbol.name = node.name;
+	symbol.args = node.argsText;
+	symbol.nameLocation = ls.Location.create(context.uri, node.nameRange != null ? node.nameRange : node.keywordRange);
+	symbol.symbolRange = node.range;
+	symbol.parentName = scope.className != null ? scope.className : "";
+	symbol.docComment = GetDocComment(node, context);
+
+	return symbol;
+}
+
+function GetParameterSymbols(node: ast.VBSProcedureDeclaration, procedureDocComment: VBSDocComment, context: CollectorContext): VBSSymbol[] {
+	return node.parameters.map(function(parameter) {
+		let symbol = new VBSParameterSymbol();
+		symbol.type = parameter.modifier;
+		symbol.name = parameter.name;
+		symbol.nameLocation = ls.Location.create(context.uri, parameter.nameRange);
+		symbol.symbolRange = parameter.nameRange;
+		symbol.parentName = node.name;
+
+		let description = procedureDocComment != null ? procedureDocComment.GetParameterDescription(parameter.name) : null;
+
+		if(description != null) {
+			symbol.docComment = new VBSDocComment();
+			symbol.docComment.description = description;
+		}
+
+		return symbol;
+	});
+}
+
+function GetVariableSymbols(node: ast.VBSVariableDeclaration, scope: CollectorScope, context: CollectorContext): VBSSymbol[] {
+	let isDim = node.keyword.toLowerCase() == "dim";
+	let isMember = !isDim && scope.className != null && scope.procedureName == null;
+	let docComment = GetDocComment(node, context);
+
+	return node.declarators.map(function(declarator, index) {
+		let symbol: VBSSymbol = isMember ? new VBSMemberSymbol() : new VBSVariableSymbol();
+		symbol.visibility = isDim ? "" : node.keyword;
+		symbol.name = declarator.name;
+		symbol.nameLocation = ls.Location.create(context.uri, declarator.nameRange);
+		// the first variable of a declaration includes the keyword
+		symbol.symbolRange = index == 0 ? ls.Range.create(node.range.start, declarator.range.end) : declarator.range;
+		symbol.parentName = scope.GetParentName();
+		symbol.docComment = docComment;
+		return symbol;
+	});
+}
+
+function GetConstantSymbols(node: ast.VBSConstDeclaration, scope: CollectorScope, context: CollectorContext): VBSSymbol[] {
+	let docComment = GetDocComment(node, context);
+
+	return node.declarators.map(function(declarator, index) {
+		let symbol = new VBSConstantSymbol();
+		symbol.visibility = node.visibility;
+		symbol.name = declarator.name;
+		symbol.value = declarator.valueText;
+		symbol.nameLocation = ls.Location.create(context.uri, declarator.nameRange);
+		symbol.symbolRange = index == 0 ? ls.Range.create(node.range.start, declarator.range.end) : declarator.range;
+		symbol.parentName = scope.GetParentName();
+		symbol.docComment = docComment;
+		return symbol;
+	});
+}
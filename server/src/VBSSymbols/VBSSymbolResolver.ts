@@ -0,0 +1,509 @@
+import * as ls from 'vscode-languageserver';
+import * as ast from "../VBSParser/VBSSyntaxTree";
+import { VBSToken, VBSTokenKind, FindTokenIndexAt, FindLastTokenBefore } from "../VBSParser/VBSToken";
+import { VBSSymbol } from "./VBSSymbol";
+import { VBSClassSymbol } from "./VBSClassSymbol";
+import { VBSConstantSymbol } from "./VBSConstantSymbol";
+import { VBSVariableSymbol } from "./VBSVariableSymbol";
+import { VBSParameterSymbol } from "./VBSParameterSymbol";
+import { VBSMethodSymbol } from "./VBSMethodSymbol";
+import { VBSPropertySymbol } from "./VBSPropertySymbol";
+import { VBSSymbolTree, GetVBSSymbolTree, PositionInRange } from "./VBSSymbolTree";
+import { FindRuntimeSymbol } from "../VBSRuntime/VBSRuntime";
+import { GetTypeMembers, GetTypeOfProgId } from "../VBSRuntime/VBSTypeCatalog";
+
+export class VBSIdentifier {
+	public token: VBSToken = null;
+	// "obj.name" and ".name" (inside of a "With" block) are member accesses
+	public isMemberAccess: boolean = false;
+	// the token in front of the dot - null if there is none or it is not an identifier
+	public objectToken: VBSToken = null;
+	// the syntax node of the member access - null if the parser could not make sense of it
+	public memberExpression: ast.VBSMemberExpression = null;
+
+	public IsMemberOfMe(): boolean {
+		return this.objectToken != null && this.objectToken.Is("me");
+	}
+}
+
+export class VBSResolvedSymbols {
+	public symbols: VBSSymbol[] = [];
+	// false if the symbols are just candidates because the class of an object is unknown
+	public isCertain: boolean = true;
+}
+
+// the global scope of a job of a Windows Script File - see VBSJob
+export class VBSJobScope {
+	public range: ls.Range = null;
+	public includedTrees: VBSSymbolTree[] = [];
+	// the constants of the type libraries of "<reference>" elements are unknown
+	public hasReferences: boolean = false;
+}
+
+// Resolves names of one document to the symbols they refer to.
+export class VBSSymbolResolver {
+	public uri: string;
+	public program: ast.VBSProgram;
+	public symbolTree: VBSSymbolTree;
+	// the global scopes of the included files in the order of the document
+	public includedTrees: VBSSymbolTree[];
+	// objects of the program which runs the script, like "Response" of ASP pages
+	public hostObjects: VBSSymbol[];
+	// the jobs of Windows Script Files - the included trees above are the ones of every job
+	public jobs: VBSJobScope[];
+
+	// keyed by the start of the name - or by the end of the dot if the name is missing ("obj.")
+	private memberExpressions: { [position: string]: ast.VBSMemberExpression; } = {};
+	private variableTypes: Map<VBSSymbol, string> = new Map<VBSSymbol, string>();
+
+	constructor(uri: string, program: ast.VBSProgram, symbols: VBSSymbol[], includedSymbols: VBSSymbol[][] = [], hostObjects: VBSSymbol[] = [], jobs: VBSJobScope[] = []) {
+		this.uri = uri;
+		this.program = program;
+		this.symbolTree = GetVBSSymbolTree(symbols);
+		this.includedTrees = includedSymbols.map(function(fileSymbols) { return GetVBSSymbolTree(fileSymbols); });
+		this.hostObjects = hostObjects;
+		this.jobs = jobs;
+		this.IndexSyntaxTree();
+	}
+
+	public GetIdentifierAt(position: ls.Position): VBSIdentifier {
+		let index = FindTokenIndexAt(this.program.tokens, position);
+
+		if(index == -1 || this.program.tokens[index].kind != VBSTokenKind.Identifier)
+			return null;
+
+		return this.GetIdentifier(index);
+	}
+
+	public GetIdentifier(index: number): VBSIdentifier {
+		let tokens = this.program.tokens;
+		let identifier = new VBSIdentifier();
+		identifier.token = tokens[index];
+
+		let dot = index > 0 ? tokens[index - 1] : null;
+
+		if(dot != null && dot.IsOperator(".")) {
+			identifier.isMemberAccess = true;
+			identifier.memberExpression = this.memberExpressions[PositionKey(identifier.token.range.start)];
+
+			let objectToken = index > 1 ? tokens[index - 2] : null;
+
+			if(objectToken != null && objectToken.kind == VBSTokenKind.Identifier && objectToken.end == dot.start)
+				identifier.objectToken = objectToken;
+		}
+
+		return identifier;
+	}
+
+	public Resolve(identifier: VBSIdentifier): VBSResolvedSymbols {
+		let resolved = new VBSResolvedSymbols();
+
+		if(!identifier.isMemberAccess) {
+			resolved.symbols = this.ResolveName(identifier.token.value, identifier.token.range.start);
+			return resolved;
+		}
+
+		let className: string = null;
+
+		if(identifier.memberExpression != null)
+			className = this.GetClassOfObject(identifier.memberExpression.object, identifier.memberExpression);
+		else if(identifier.IsMemberOfMe())
+			className = this.GetEnclosingClassName(identifier.token.range.start);
+
+		let members = this.GetMembersOfType(className);
+
+		if(members != null) {
+			resolved.symbols = FilterByName(members, identifier.token.value);
+			return resolved;
+		}
+
+		// without knowing the class of the object every class member with this name is a candidate
+		resolved.symbols = this.FindClassMembers(identifier.token.value);
+		resolved.isCertain = false;
+		return resolved;
+	}
+
+	// the members which can follow the dot in front of the position ("obj.|" or "obj.Na|") -
+	// null if there is no dot and an empty list if the class of the object is unknown.
+	// Private members are left out outside of their class and "Property Get/Let" are listed once.
+	public GetMembersForCompletion(position: ls.Position): VBSSymbol[] {
+		let tokens = this.program.tokens;
+		let index = FindLastTokenBefore(tokens, position);
+
+		if(index == -1)
+			return null;
+
+		let key = PositionKey(tokens[index].range.end);
+
+		// the part of the name which has been typed already
+		if(tokens[index].kind == VBSTokenKind.Identifier) {
+			if(index == 0 || !tokens[index - 1].IsOperator(".") || tokens[index - 1].end != tokens[index].start)
+				return null;
+
+			key = PositionKey(tokens[index].range.start);
+			index--;
+		} else if(!tokens[index].IsOperator(".") || tokens[index].range.end.line != position.line) {
+			return null;
+		}
+
+		let memberExpression = this.memberExpressions[key];
+		let className: string = null;
+
+		if(memberExpression != null)
+			className = this.GetClassOfObject(memberExpression.object, memberExpression);
+		else if(index > 0 && tokens[index - 1].Is("me"))
+			className = this.GetEnclosingClassName(position);
+
+		let members = this.GetMembersOfType(className);
+
+		if(members == null)
+			return [];
+
+		let enclosingClassName = this.GetEnclosingClassName(position);
+		let isInsideOfClass = this.GetClassNode(className) == null || (enclosingClassName != null && enclosingClassName.toLowerCase() == className.toLowerCase());
+		let names: string[] = [];
+
+		return members.filter(function(member) {
+			let lowerName = member.name.toLowerCase();
+
+			if(names.indexOf(lowerName) > -1)
+				return false;
+
+			// constants of a class are always private
+			if(!isInsideOfClass && (member.visibility.toLowerCase() == "private" || member instanceof VBSConstantSymbol))
+				return false;
+
+			names.push(lowerName);
+			return true;
+		});
+	}
+
+	// the class of the object a name refers to ("o" of "Set o = New MyClass") - null if it is
+	// unknown or not a class of the document
+	public GetTypeDefinition(position: ls.Position): VBSSymbol {
+		let identifier = this.GetIdentifierAt(position);
+		let className: string;
+
+		if(identifier == null)
+			return null;
+
+		if(identifier.token.Is("me")) {
+			className = this.GetEnclosingClassName(position);
+		} else {
+			let symbols = this.Resolve(identifier).symbols;
+			let classes = symbols.filter(function(symbol) { return symbol instanceof VBSClassSymbol; });
+
+			// the name of the class itself ("New MyClass")
+			if(classes.length > 0)
+				return classes[0];
+
+			className = this.GetTypeOfSymbols(symbols);
+		}
+
+		let classNode = this.GetClassNode(className);
+		return classNode != null ? classNode.data : null;
+	}
+
+	// names of the document hide the ones of included files, the host and the VBScript runtime
+	public ResolveName(name: string, position: ls.Position): VBSSymbol[] {
+		let symbols = this.symbolTree.FindDirectParent(position).FindSymbolsInScope(name).filter(symbol => {
+			return this.IsVisibleAt(symbol, position);
+		});
+
+		let includedTrees = this.GetIncludedTrees(position);
+
+		for (let i = 0; i < includedTrees.length && symbols.length == 0; i++)
+			symbols = includedTrees[i].FindDirectChildren(name);
+
+		if(symbols.length == 0)
+			symbols = FilterByName(this.hostObjects, name);
+
+		if(symbols.length > 0)
+			return symbols;
+
+		let builtin = FindRuntimeSymbol(name);
+		return builtin != null ? [ builtin ] : [];
+	}
+
+	// the job of a Windows Script File at the position - null outside of jobs and in other files
+	public GetJobAt(position: ls.Position): VBSJobScope {
+		return this.jobs.filter(function(job) { return PositionInRange(job.range, position); })[0] || null;
+	}
+
+	// false for the symbols of the other jobs of a Windows Script File
+	public IsVisibleAt(symbol: VBSSymbol, position: ls.Position): boolean {
+		let job = this.GetJobAt(position);
+		return job == null || PositionInRange(job.range, symbol.symbolRange.start);
+	}
+
+	// everything declared at the top of the files included at the position is global
+	public GetIncludedGlobals(position: ls.Position): VBSSymbol[] {
+		let globals: VBSSymbol[] = [];
+
+		this.GetIncludedTrees(position).forEach(tree => {
+			globals = globals.concat(tree.children.map(function(child) { return child.data; }));
+		});
+
+		return globals;
+	}
+
+	// variables and constants of a Sub, Function or Property of the document - parameters are no locals
+	public IsLocal(symbol: VBSSymbol): boolean {
+		if(symbol.isBuiltin || symbol instanceof VBSParameterSymbol || !(symbol instanceof VBSVariableSymbol || symbol instanceof VBSConstantSymbol))
+			return false;
+
+		let node = this.symbolTree.FindNode(symbol);
+
+		if(node == null || node.parent == null)
+			return false;
+
+		return node.parent.data instanceof VBSMethodSymbol || node.parent.data instanceof VBSPropertySymbol;
+	}
+
+	public GetClassNode(className: string): VBSSymbolTree {
+		if(className == null)
+			return null;
+
+		let lowerName = className.toLowerCase();
+		let trees = [ this.symbolTree ].concat(this.includedTrees);
+
+		for (let i = 0; i < trees.length; i++) {
+			for (let j = 0; j < trees[i].children.length; j++) {
+				let child = trees[i].children[j];
+
+				if(child.data instanceof VBSClassSymbol && child.data.name.toLowerCase() == lowerName)
+					return child;
+			}
+		}
+
+		return null;
+	}
+
+	// the members of a class of the document or of a type of the type catalog - null if the type is unknown
+	public GetMembersOfType(typeName: string): VBSSymbol[] {
+		if(typeName == null)
+			return null;
+
+		let classNode = this.GetClassNode(typeName);
+
+		if(classNode != null)
+			return classNode.children.map(function(child) { return child.data; });
+
+		return GetTypeMembers(typeName);
+	}
+
+	public GetTypeOfSymbol(symbol: VBSSymbol): string {
+		let type = this.variableTypes.get(symbol);
+
+		if(type != null)
+			return type;
+
+		return symbol.returnType != "" ? symbol.returnType : null;
+	}
+
+	// the name of the class of the object an expression evaluates to - null if unknown
+	public GetClassOfObject(expression: ast.VBSExpression, context: ast.VBSNode): string {
+		if(expression == null) {
+			// ".name" refers to the object of the innermost "With" block
+			let withStatement = ast.FindAncestor(context, ast.VBSWithStatement);
+			return withStatement != null ? this.GetClassOfObject(withStatement.object, withStatement) : null;
+		}
+
+		if(expression instanceof ast.VBSParenthesizedExpression)
+			return this.GetClassOfObject(expression.expression, expression);
+
+		if(expression instanceof ast.VBSNewExpression)
+			return expression.className;
+
+		if(expression instanceof ast.VBSMeExpression)
+			return this.GetEnclosingClassName(expression.range.start);
+
+		if(expression instanceof ast.VBSIdentifierExpression)
+			return this.GetTypeOfSymbols(this.ResolveName(expression.name, expression.range.start));
+
+		if(expression instanceof ast.VBSMemberExpression) {
+			let members = this.GetMembersOfType(this.GetClassOfObject(expression.object, expression));
+
+			if(members == null)
+				return null;
+
+			return this.GetTypeOfSymbols(FilterByName(members, expression.name));
+		}
+
+		// "re.Execute(s)" or "matches(0)" evaluate to the type of the function or the default property
+		if(expression instanceof ast.VBSCallExpression)
+			return this.GetTypeOfCall(expression);
+
+		return null;
+	}
+
+	public FindClassMembers(name: string): VBSSymbol[] {
+		let members: VBSSymbol[] = [];
+
+		[ this.symbolTree ].concat(this.includedTrees).forEach(tree => {
+			tree.children.forEach(child => {
+				if(child.data instanceof VBSClassSymbol)
+					members = members.concat(child.FindDirectChildren(name));
+			});
+		});
+
+		return members;
+	}
+
+	private GetIncludedTrees(position: ls.Position): VBSSymbolTree[] {
+		let job = this.GetJobAt(position);
+		return job != null ? job.includedTrees : this.includedTrees;
+	}
+
+	private GetTypeOfCall(call: ast.VBSCallExpression): string {
+		if(this.IsObjectFactory(call.callee) && call.args.length > 0) {
+			let progId = call.args[0];
+
+			if(progId instanceof ast.VBSLiteralExpression && progId.literalKind == "String")
+				return GetTypeOfProgId(progId.value);
+
+			return null;
+		}
+
+		let type = this.GetClassOfObject(call.callee, call);
+
+		if(type == null || call.args.length == 0)
+			return type;
+
+		// "obj.Item(1)" passes the arguments to the procedure, "items(1)" to the default member of the object
+		if(this.GetCalleeSymbols(call.callee).some(function(symbol) { return symbol.args != ""; }))
+			return type;
+
+		return this.GetTypeOfDefaultMember(type);
+	}
+
+	// "CreateObject", "GetObject" and the "CreateObject" methods of objects like "WScript" and "Server"
+	private IsObjectFactory(callee: ast.VBSExpression): boolean {
+		if(callee instanceof ast.VBSMemberExpression)
+			return callee.name.toLowerCase() == "createobject";
+
+		if(!(callee instanceof ast.VBSIdentifierExpression))
+			return false;
+
+		let lowerName = callee.name.toLowerCase();
+
+		if(lowerName != "createobject" && lowerName != "getobject")
+			return false;
+
+		return this.ResolveName(callee.name, callee.range.start).some(function(symbol) { return symbol.isBuiltin; });
+	}
+
+	// the type of the default member which takes the arguments of "items(1)" - default members without
+	// parameters pass them on to their own default member: "rs(1)" is "rs.Fields.Item(1)"
+	private GetTypeOfDefaultMember(type: string): string {
+		for (let depth = 0; depth < 3 && type != null; depth++) {
+			let members = this.GetMembersOfType(type);
+
+			if(members == null)
+				return null;
+
+			let defaultMembers = members.filter(function(member) { return member.isDefault; });
+			type = this.GetTypeOfSymbols(defaultMembers);
+
+			if(defaultMembers.some(function(member) { return member.args != ""; }))
+				return type;
+		}
+
+		return type;
+	}
+
+	private GetCalleeSymbols(callee: ast.VBSExpression): VBSSymbol[] {
+		if(callee instanceof ast.VBSIdentifierExpression)
+			return this.ResolveName(callee.name, callee.range.start);
+
+		if(callee instanceof ast.VBSMemberExpression)
+			return this.GetMembersOfCallee(callee);
+
+		return [];
+	}
+
+	private GetMembersOfCallee(callee: ast.VBSMemberExpression): VBSSymbol[] {
+		let members = this.GetMembersOfType(this.GetClassOfObject(callee.object, callee));
+		return members != null ? FilterByName(members, callee.name) : [];
+	}
+
+	private GetEnclosingClassName(position: ls.Position): string {
+		let classNode = this.symbolTree.FindDirectParent(position).FindAncestor(function(symbol) {
+			return symbol instanceof VBSClassSymbol;
+		});
+
+		return classNode != null ? classNode.data.name : null;
+	}
+
+	private GetTypeOfSymbols(symbols: VBSSymbol[]): string {
+		for (let i = 0; i < symbols.length; i++) {
+			let type = this.GetTypeOfSymbol(symbols[i]);
+
+			if(type != null)
+				return type;
+		}
+
+		return null;
+	}
+
+	private IndexSyntaxTree() {
+		let assignments: ast.VBSNode[] = [];
+
+		ast.ForEachNode(this.program, node => {
+			if(node instanceof ast.VBSMemberExpression) {
+				if(node.nameRange != null)
+					this.memberExpressions[PositionKey(node.nameRange.start)] = node;
+				else
+					this.memberExpressions[PositionKey(node.range.end)] = node;
+			}
+
+			if(node instanceof ast.VBSAssignmentStatement && node.isSet)
+				assignments.push(node);
+
+			if(node instanceof ast.VBSForEachStatement)
+				assignments.push(node);
+		});
+
+		// "Set x = New MyClass" gives "x" the type "MyClass" and "Set fso = CreateObject(...)" the type
+		// of the ProgID - in the order of the document, so "Set f = fso.GetFile(p)" knows the type of "fso"
+		assignments.forEach(assignment => {
+			let target: ast.VBSExpression;
+			let type: string;
+
+			if(assignment instanceof ast.VBSAssignmentStatement) {
+				target = assignment.target;
+				type = this.GetClassOfObject(assignment.value, assignment);
+			} else if(assignment instanceof ast.VBSForEachStatement) {
+				// "For Each f In folder.Files" - the items have the type of the default member ("Item")
+				target = assignment.variable;
+				let collectionType = this.GetClassOfObject(assignment.collection, assignment);
+				type = collectionType != null ? this.GetTypeOfDefaultMember(collectionType) : null;
+			}
+
+			if(target == null || type == null)
+				return;
+
+			let targets: VBSSymbol[] = [];
+
+			if(target instanceof ast.VBSIdentifierExpression) {
+				targets = this.ResolveName(target.name, target.range.start);
+			} else if(target instanceof ast.VBSMemberExpression) {
+				targets = this.GetMembersOfCallee(target);
+			}
+
+			targets.forEach(symbol => {
+				if(!symbol.isBuiltin)
+					this.variableTypes.set(symbol, type);
+			});
+		});
+	}
+}
+
+function FilterByName(symbols: VBSSymbol[], name: string): VBSSymbol[] {
+	let lowerName = name.toLowerCase();
+	return symbols.filter(function(symbol) { return symbol.name.toLowerCase() == lowerName; });
+}
+
+function PositionKey(position: ls.Position): string {
+	return position.line + ":" + position.character;
+}
@@ -0,0 +1,159 @@
+import * as ls from 'vscode-languageserver';
+import { VBSSymbol } from "./VBSSymbol";
+
+export function GetVBSSymbolTree(symbols: VBSSymbol[]): VBSSymbolTree {
+	// sort by start positition
+	let sortedSymbols: VBSSymbol[] = symbols.slice().sort(function(a: VBSSymbol, b: VBSSymbol){
+		let diff = a.symbolRange.start.line - b.symbolRange.start.line;
+		
+		if(diff != 0)
+			return diff;
+
+		return a.symbolRange.start.character - b.symbolRange.start.character;
+	});
+
+	let root = new VBSSymbolTree();
+	
+	for (var i = 0; i < sortedSymbols.length; i++) {
+		var symbol = sortedSymbols[i];
+		root.InsertIntoTree(symbol);
+	}
+
+	return root;
+}
+
+export class VBSSymbolTree {
+	parent: VBSSymbolTree = null;
+	children: VBSSymbolTree[] = [];
+	data: VBSSymbol = null;
+
+	public InsertIntoTree(symbol: VBSSymbol): boolean {
+		if(this.data != null && !PositionInRange(this.data.symbolRange, symbol.symbolRange.start))
+			return false;
+
+		// the symbols are inserted by their start, so only the last child can contain the symbol
+		let lastChild = this.children.length > 0 ? this.children[this.children.length - 1] : null;
+
+		if(lastChild != null && lastChild.InsertIntoTree(symbol))
+			return true;
+
+		let newTreeNode = new VBSSymbolTree();
+		newTreeNode.data = symbol;
+		newTreeNode.parent = this;
+
+		this.children.push(newTreeNode);
+
+		return true;
+	}
+
+	public FindDirectParent(position: ls.Position): VBSSymbolTree {
+		if(this.data != null && !PositionInRange(this.data.symbolRange, position))
+			return null;
+		
+		for (var i = 0; i < this.children.length; i++) {
+			let symbolTree = this.children[i];
+			let found = symbolTree.FindDirectParent(position);
+			if(found != null)
+				return found;
+		}
+
+		return this;
+	}
+
+	// the outline of a document: classes contain their members, procedures their parameters and variables
+	public GetLsDocumentSymbols(): ls.DocumentSymbol[] {
+		return this.children.map(function(symbolTree) {
+			return symbolTree.data.GetLsDocumentSymbol(symbolTree.GetLsDocumentSymbols());
+		});
+	}
+
+	public GetAllParentsAndTheirDirectChildren(): VBSSymbol[] {
+		let symbols: VBSSymbol[];
+
+		if(this.parent != null)
+			symbols = this.parent.GetAllParentsAndTheirDirectChildren();
+		else
+			symbols = [];
+		
+		let childSymbols = this.children.map(function(symbolTree) {
+			return symbolTree.data;
+		});
+
+		return symbols.concat(childSymbols);
+	}
+
+	// VBScript names are case insensitive - the innermost scope wins
+	public FindSymbolInScope(name: string): VBSSymbol {
+		let found = this.FindSymbolsInScope(name);
+
+		if(found.length == 0)
+			return null;
+
+		return found[0];
+	}
+
+	// a property may be declared several times (Get, Let and Set) within the same scope
+	public FindSymbolsInScope(name: string): VBSSymbol[] {
+		for (let node: VBSSymbolTree = this; node != null; node = node.parent) {
+			let found = node.FindDirectChildren(name);
+
+			if(found.length > 0)
+				return found;
+		}
+
+		return [];
+	}
+
+	public FindDirectChildren(name: string): VBSSymbol[] {
+		let lowerName = name.toLowerCase();
+		let found: VBSSymbol[] = [];
+
+		for (let i = 0; i < this.children.length; i++) {
+			let symbol = this.children[i].data;
+
+			if(symbol.name.toLowerCase() == lowerName)
+				found.push(symbol);
+		}
+
+		return found;
+	}
+
+	public FindNode(symbol: VBSSymbol): VBSSymbolTree {
+		if(this.data == symbol)
+			return this;
+
+		for (let i = 0; i < this.children.length; i++) {
+			let found = this.children[i].FindNode(symbol);
+
+			if(found != null)
+				return found;
+		}
+
+		return null;
+	}
+
+	public FindAncestor(predicate: (symbol: VBSSymbol) => boolean): VBSSymbolTree {
+		for (let node: VBSSymbolTree = this; node != null; node = node.parent) {
+			if(node.data != null && predicate(node.data))
+				return node;
+		}
+
+		return null;
+	}
+}
+
+export function PositionInRange(range: ls.Range, position: ls.Position): boolean {
+	if(range.start.line > position.line)
+		return false;
+
+	if(range.end.line < position.line)
+		return false;
+
+	if(range.start.line == position.line && range.start.character >= position.character)
+		return false;
+		
+	if(range.end.line == position.line && range.end.character <= position.character)
+		return false;
+
+	return true;
+}
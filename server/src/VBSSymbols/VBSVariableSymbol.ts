@@ -2,6 +2,10 @@ import * as ls from 'vscode-languageserver';
 import { VBSSymbol } from "./VBSSymbol";
 
 export class VBSVariableSymbol extends VBSSymbol {
+	public GetDeclarationText(): string {
+		return (this.visibility != "" ? this.visibility : "Dim") + " " + this.name;
+	}
+
 	public GetLsSymbolKind(): ls.SymbolKind {
 		return ls.SymbolKind.Variable;
 	}
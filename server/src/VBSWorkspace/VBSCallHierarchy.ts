@@ -0,0 +1,199 @@
+import * as ls from 'vscode-languageserver';
+import * as path from 'path';
+import { VBSTokenKind, IsKeyword } from "../VBSParser/VBSToken";
+import { VBSSymbol } from "../VBSSymbols/VBSSymbol";
+import { VBSMethodSymbol } from "../VBSSymbols/VBSMethodSymbol";
+import { VBSPropertySymbol } from "../VBSSymbols/VBSPropertySymbol";
+import { VBSSymbolResolver } from "../VBSSymbols/VBSSymbolResolver";
+import { VBSSymbolTree, PositionInRange } from "../VBSSymbols/VBSSymbolTree";
+import { FindReferences, VBSReference } from "../VBSSymbols/VBSReferenceFinder";
+import { VBSWorkspaceIndex } from "./VBSWorkspaceIndex";
+import { GetFilesSeeingSymbolsOf } from "./VBSWorkspaceReferences";
+import { UriToPath } from "./VBSUri";
+import { GiveWay } from "../VBSCancellation";
+
+// finds the procedure of an item again - no position stands for the code outside of procedures
+interface VBSCallHierarchyData {
+	uri: string;
+	position: ls.Position;
+}
+
+export function IsCallable(symbol: VBSSymbol): boolean {
+	return !symbol.isBuiltin && (symbol instanceof VBSMethodSymbol || symbol instanceof VBSPropertySymbol);
+}
+
+export function CreateCallHierarchyItem(symbol: VBSSymbol): ls.CallHierarchyItem {
+	let data: VBSCallHierarchyData = { uri: symbol.nameLocation.uri, position: symbol.nameLocation.range.start };
+
+	return {
+		name: symbol.GetLsName(),
+		kind: symbol.parentName != "" && symbol instanceof VBSMethodSymbol ? ls.SymbolKind.Method : symbol.GetLsSymbolKind(),
+		detail: symbol.parentName,
+		uri: symbol.nameLocation.uri,
+		range: symbol.symbolRange,
+		selectionRange: symbol.nameLocation.range,
+		data: data
+	};
+}
+
+// the code of a file which is not part of a procedure - the main program of a script
+function CreateScriptItem(uri: string, range: ls.Range): ls.CallHierarchyItem {
+	let data: VBSCallHierarchyData = { uri: uri, position: null };
+
+	return {
+		name: path.basename(UriToPath(uri)),
+		kind: ls.SymbolKind.File,
+		uri: uri,
+		range: range,
+		selectionRange: range,
+		data: data
+	};
+}
+
+// Callers of the procedure in its own file and in the files which include it. Calls with and
+// without parentheses and "Call X" are all references to the procedure. Null if the token is
+// cancelled while other messages have their turn between the files.
+export async function GetIncomingCalls(index: VBSWorkspaceIndex, item: ls.CallHierarchyItem, getResolver: (uri: string) => VBSSymbolResolver, token: ls.CancellationToken = ls.CancellationToken.None): Promise<ls.CallHierarchyIncomingCall[]> {
+	let target = FindSymbolOfItem(index, item);
+
+	if(target == null)
+		return [];
+
+	let calls: ls.CallHierarchyIncomingCall[] = [];
+	let uris = GetFilesSeeingSymbolsOf(index, target.nameLocation.uri);
+
+	for (let i = 0; i < uris.length; i++) {
+		let uri = uris[i];
+		let file = index.GetFile(uri);
+
+		if(file == null || !file.names.has(target.name.toLowerCase()))
+			continue;
+
+		if(i > 0 && await GiveWay(token))
+			return null;
+
+		let resolver = getResolver(uri);
+
+		if(resolver == null)
+			continue;
+
+		let callers = new Map<VBSSymbol, ls.Range[]>();
+		let scriptRanges: ls.Range[] = [];
+
+		FindReferences(resolver, [ target ]).forEach(reference => {
+			let caller = FindEnclosingProcedure(resolver.symbolTree, reference.range.start);
+
+			if(!IsCall(reference, caller))
+				return;
+
+			if(caller == null)
+				scriptRanges.push(reference.range);
+			else if(callers.has(caller))
+				callers.get(caller).push(reference.range);
+			else
+				callers.set(caller, [ reference.range ]);
+		});
+
+		callers.forEach((ranges, caller) => {
+			calls.push({ from: CreateCallHierarchyItem(caller), fromRanges: ranges });
+		});
+
+		if(scriptRanges.length > 0)
+			calls.push({ from: CreateScriptItem(uri, scriptRanges[0]), fromRanges: scriptRanges });
+	}
+
+	return calls;
+}
+
+// The procedures called by the procedure, including the ones of included files. Calls of
+// methods are only found if the class of the object is known.
+export function GetOutgoingCalls(index: VBSWorkspaceIndex, item: ls.CallHierarchyItem, getResolver: (uri: string) => VBSSymbolResolver): ls.CallHierarchyOutgoingCall[] {
+	let data: VBSCallHierarchyData = <VBSCallHierarchyData>item.data;
+	let resolver = data != null ? getResolver(data.uri) : null;
+
+	if(resolver == null)
+		return [];
+
+	let caller = data.position != null ? FindSymbolOfItem(index, item) : null;
+
+	if(data.position != null && caller == null)
+		return [];
+
+	let tokens = resolver.program.tokens;
+	let targets: VBSSymbol[] = [];
+
+	for (let i = 0; i < tokens.length; i++) {
+		let token = tokens[i];
+
+		if(token.kind != VBSTokenKind.Identifier || FindEnclosingProcedure(resolver.symbolTree, token.range.start) != caller)
+			continue;
+
+		let identifier = resolver.GetIdentifier(i);
+
+		if(!identifier.isMemberAccess && IsKeyword(token.text))
+			continue;
+
+		let resolved = resolver.Resolve(identifier);
+
+		if(!resolved.isCertain)
+			continue;
+
+		resolved.symbols.forEach(symbol => {
+			if(IsCallable(symbol) && targets.indexOf(symbol) == -1)
+				targets.push(symbol);
+		});
+	}
+
+	let calls = new Map<VBSSymbol, ls.Range[]>();
+
+	FindReferences(resolver, targets).forEach(reference => {
+		if(!reference.isCertain || FindEnclosingProcedure(resolver.symbolTree, reference.range.start) != caller || !IsCall(reference, caller))
+			return;
+
+		if(calls.has(reference.symbol))
+			calls.get(reference.symbol).push(reference.range);
+		else
+			calls.set(reference.symbol, [ reference.range ]);
+	});
+
+	let outgoingCalls: ls.CallHierarchyOutgoingCall[] = [];
+
+	calls.forEach((ranges, target) => {
+		outgoingCalls.push({ to: CreateCallHierarchyItem(target), fromRanges: ranges });
+	});
+
+	return outgoingCalls;
+}
+
+// "Calc = 1" inside of "Function Calc" sets the return value instead of calling it
+function IsCall(reference: VBSReference, caller: VBSSymbol): boolean {
+	if(reference.isDeclaration)
+		return false;
+
+	return !(reference.isWrite && caller != null && caller.name.toLowerCase() == reference.symbol.name.toLowerCase());
+}
+
+function FindSymbolOfItem(index: VBSWorkspaceIndex, item: ls.CallHierarchyItem): VBSSymbol {
+	let data: VBSCallHierarchyData = <VBSCallHierarchyData>item.data;
+	let file = data != null && data.position != null ? index.GetFile(data.uri) : null;
+
+	if(file == null)
+		return null;
+
+	return file.symbols.filter(function(symbol) {
+		let start = symbol.nameLocation.range.start;
+		return IsCallable(symbol) && start.line == data.position.line && start.character == data.position.character;
+	})[0] || null;
+}
+
+// the Sub, Function or Property which contains the position - null outside of procedures
+function FindEnclosingProcedure(tree: VBSSymbolTree, position: ls.Position): VBSSymbol {
+	let node = tree.FindDirectParent(position);
+
+	for (; node != null; node = node.parent) {
+		if(node.data != null && IsCallable(node.data) && PositionInRange(node.data.symbolRange, position))
+			return node.data;
+	}
+
+	return null;
+}
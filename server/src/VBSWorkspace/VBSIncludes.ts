@@ -0,0 +1,99 @@
+import * as ls from 'vscode-languageserver';
+import * as path from 'path';
+import { VBSInclude } from "../VBSParser/VBSScriptSource";
+import { VBSWorkspaceIndex, VBSIndexedFile } from "./VBSWorkspaceIndex";
+import { PathToUri, UriToPath, NormalizeUri } from "./VBSUri";
+import { PositionInRange } from "../VBSSymbols/VBSSymbolTree";
+
+// the folder of "<!--#include virtual="/..."-->" - null as long as there is no workspace
+let virtualRoot: string = null;
+
+export function SetVirtualRoot(rootPath: string) {
+	virtualRoot = rootPath;
+}
+
+export class VBSResolvedIncludes {
+	// every file which is included directly or by an included file - each of them once
+	public files: VBSIndexedFile[] = [];
+	// missing and circular includes of the document
+	public diagnostics: ls.Diagnostic[] = [];
+}
+
+// the uri of the included file - null if the document is not on the disk
+export function GetIncludeUri(include: VBSInclude, documentUri: string): string {
+	if(include.isVirtual) {
+		if(virtualRoot == null)
+			return null;
+
+		// "/lib/db.inc" starts at the virtual root as well
+		return PathToUri(path.join(virtualRoot, include.path));
+	}
+
+	if(documentUri.indexOf("file://") != 0)
+		return null;
+
+	return PathToUri(path.resolve(path.dirname(UriToPath(documentUri)), include.path));
+}
+
+// the range limits the includes of the document to the ones of a job of a Windows Script File
+export function ResolveIncludes(index: VBSWorkspaceIndex, uri: string, range: ls.Range = null): VBSResolvedIncludes {
+	let resolved = new VBSResolvedIncludes();
+	let document = index.GetFile(uri);
+
+	if(document == null)
+		return resolved;
+
+	let visited: string[] = [ NormalizeUri(uri) ];
+
+	document.includes.forEach(include => {
+		if(range != null && !PositionInRange(range, include.range.start))
+			return;
+
+		let includeUri = GetIncludeUri(include, uri);
+		let file = includeUri != null ? index.GetFile(includeUri) : null;
+
+		if(file == null) {
+			resolved.diagnostics.push(CreateDiagnostic(include.range, "Include file '" + include.path + "' not found!", "missing-include"));
+			return;
+		}
+
+		// the includes of included files are checked when they are opened - just the cycles matter here
+		let cycles: VBSIndexedFile[][] = [];
+		AddIncludedFile(index, file, [ document ], visited, resolved, cycles);
+
+		cycles.forEach(cycle => {
+			let names = cycle.map(function(cycleFile) { return path.basename(UriToPath(cycleFile.uri)); });
+			resolved.diagnostics.push(CreateDiagnostic(include.range, "Circular include: " + names.join(" -> ") + "!", "circular-include"));
+		});
+	});
+
+	return resolved;
+}
+
+function AddIncludedFile(index: VBSWorkspaceIndex, file: VBSIndexedFile, chain: VBSIndexedFile[], visited: string[], resolved: VBSResolvedIncludes, cycles: VBSIndexedFile[][]) {
+	let key = NormalizeUri(file.uri);
+	let chainIndex = chain.map(function(chainFile) { return NormalizeUri(chainFile.uri); }).indexOf(key);
+
+	if(chainIndex > -1) {
+		cycles.push(chain.slice(chainIndex).concat([ file ]));
+		return;
+	}
+
+	if(visited.indexOf(key) > -1)
+		return;
+
+	visited.push(key);
+	resolved.files.push(file);
+
+	file.includes.forEach(include => {
+		let includeUri = GetIncludeUri(include, file.uri);
+		let includedFile = includeUri != null ? index.GetFile(includeUri) : null;
+
+		if(includedFile != null)
+			AddIncludedFile(index, includedFile, chain.concat([ file ]), visited, resolved, cycles);
+	});
+}
+
+function CreateDiagnostic(range: ls.Range, message: string, code: string): ls.Diagnostic {
+	return ls.Diagnostic.create(range, message, ls.DiagnosticSeverity.Error, code, "vbs");
+}
@@ -0,0 +1,134 @@
+import * as ls from 'vscode-languageserver';
+import { ParseDocument } from "../VBSParser/VBSParser";
+import { ParseChangedRegion, ApplyChangedRegion } from "../VBSParser/VBSIncrementalParser";
+import * as ast from "../VBSParser/VBSSyntaxTree";
+import { ComparePositions } from "../VBSParser/VBSToken";
+import { VBSScriptSource, VBSInclude, ExtractScriptSource } from "../VBSParser/VBSScriptSource";
+import { VBSSymbol } from "../VBSSymbols/VBSSymbol";
+import { VBSObjectSymbol } from "../VBSSymbols/VBSObjectSymbol";
+import { CollectSymbols } from "../VBSSymbols/VBSSymbolCollector";
+import { GetTypeOfProgId } from "../VBSRuntime/VBSTypeCatalog";
+
+export class VBSScriptFile {
+	public uri: string = "";
+	public source: VBSScriptSource = null;
+	public program: ast.VBSProgram = null;
+	public symbols: VBSSymbol[] = [];
+	// the included files in the order of the document - see VBSIncludes
+	public includes: VBSInclude[] = [];
+}
+
+// parses the VBScript code of any kind of script file (.vbs, .wsf, ...)
+export function ParseScriptFile(uri: string, text: string): VBSScriptFile {
+	let source = ExtractScriptSource(uri, text);
+	let program = ParseDocument(source.text, source.host == "asp");
+	return CreateScriptFile(uri, source, program, CollectSymbols(program, uri), FindExecuteGlobalIncludes(program));
+}
+
+// Parses the new text of a file. If the change is limited to one procedure or class of the
+// global scope, just this part is parsed again and the rest of the syntax tree and the symbols
+// are reused - the old file must not be used any more.
+export function UpdateScriptFile(file: VBSScriptFile, text: string): VBSScriptFile {
+	let source = ExtractScriptSource(file.uri, text);
+	let symbols = file.symbols.slice(0, file.symbols.length - file.source.objects.length);
+	let executeGlobalIncludes = file.includes.filter(function(include) { return file.source.includes.indexOf(include) == -1; });
+
+	if(source.text == file.source.text)
+		return CreateScriptFile(file.uri, source, file.program, symbols, executeGlobalIncludes);
+
+	let region = ParseChangedRegion(file.program, file.source.text, source.text, source.host == "asp");
+
+	if(region == null)
+		return ParseScriptFile(file.uri, text);
+
+	let isBefore = function(range: ls.Range) { return range.start.line < region.startLine; };
+	let isBehind = function(range: ls.Range) { return range.start.line > region.oldEndLine; };
+	let symbolsBefore = symbols.filter(function(symbol) { return isBefore(symbol.symbolRange); });
+	let symbolsBehind = symbols.filter(function(symbol) { return isBehind(symbol.symbolRange); });
+	let includesBefore = executeGlobalIncludes.filter(function(include) { return isBefore(include.range); });
+	let includesBehind = executeGlobalIncludes.filter(function(include) { return isBehind(include.range); }).map(function(include) {
+		return MoveInclude(include, region.lineDelta);
+	});
+
+	// the symbols share their positions with the syntax tree - they are moved along with it
+	ApplyChangedRegion(file.program, region);
+
+	symbols = symbolsBefore.concat(CollectSymbols(region.program, file.uri), symbolsBehind);
+	executeGlobalIncludes = includesBefore.concat(FindExecuteGlobalIncludes(region.program), includesBehind);
+	return CreateScriptFile(file.uri, source, file.program, symbols, executeGlobalIncludes);
+}
+
+function CreateScriptFile(uri: string, source: VBSScriptSource, program: ast.VBSProgram, symbols: VBSSymbol[], executeGlobalIncludes: VBSInclude[]): VBSScriptFile {
+	let file = new VBSScriptFile();
+	file.uri = uri;
+	file.source = source;
+	file.program = program;
+	file.symbols = symbols.concat(GetHostObjectSymbols(source, uri));
+	file.includes = source.includes.concat(executeGlobalIncludes).sort(function(a, b) {
+		return ComparePositions(a.range.start, b.range.start);
+	});
+	return file;
+}
+
+function MoveInclude(include: VBSInclude, lineDelta: number): VBSInclude {
+	let moved = new VBSInclude();
+	moved.path = include.path;
+	moved.isVirtual = include.isVirtual;
+	moved.range = ls.Range.create(include.range.start.line + lineDelta, include.range.start.character, include.range.end.line + lineDelta, include.range.end.character);
+	return moved;
+}
+
+function GetHostObjectSymbols(source: VBSScriptSource, uri: string): VBSSymbol[] {
+	return source.objects.map(function(object) {
+		let symbol = new VBSObjectSymbol();
+		let type = object.progId != "" ? GetTypeOfProgId(object.progId) : null;
+		symbol.name = object.id;
+		symbol.returnType = type != null ? type : "";
+		symbol.nameLocation = ls.Location.create(uri, object.idRange);
+		symbol.symbolRange = object.range;
+		return symbol;
+	});
+}
+
+// "ExecuteGlobal fso.OpenTextFile("lib.vbs").ReadAll" loads a library into the global scope
+function FindExecuteGlobalIncludes(program: ast.VBSProgram): VBSInclude[] {
+	let includes: VBSInclude[] = [];
+
+	ast.ForEachNode(program, node => {
+		if(!(node instanceof ast.VBSCallStatement))
+			return;
+
+		let callee = node.callee;
+		let args = node.args;
+
+		// "ExecuteGlobal(...)"
+		if(callee instanceof ast.VBSCallExpression) {
+			args = callee.args;
+			callee = callee.callee;
+		}
+
+		if(!(callee instanceof ast.VBSIdentifierExpression) || callee.name.toLowerCase() != "executeglobal" || args.length == 0 || args[0] == null)
+			return;
+
+		ast.ForEachNode(args[0], argNode => {
+			if(!(argNode instanceof ast.VBSCallExpression) || !(argNode.callee instanceof ast.VBSMemberExpression))
+				return;
+
+			let fileName = argNode.args.length > 0 ? argNode.args[0] : null;
+
+			if(argNode.callee.name.toLowerCase() != "opentextfile" || !(fileName instanceof ast.VBSLiteralExpression) || fileName.literalKind != "String")
+				return;
+
+			// the range of the path without the quotes
+			let include = new VBSInclude();
+			include.path = fileName.value;
+			include.range = ls.Range.create(
+				ls.Position.create(fileName.range.start.line, fileName.range.start.character + 1),
+				ls.Position.create(fileName.range.end.line, fileName.range.end.character - 1)
+			);
+			includes.push(include);
+		});
+	});
+
+	return includes;
+}
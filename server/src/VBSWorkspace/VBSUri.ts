@@ -0,0 +1,35 @@
+import * as path from 'path';
+
+// file uris as VS Code writes them: "c:\My Scripts\a.vbs" => "file:///c%3A/My%20Scripts/a.vbs"
+export function PathToUri(filePath: string): string {
+	let uriPath = filePath.replace(/\\/g, "/");
+
+	if(/^[a-zA-Z]:/.test(uriPath))
+		uriPath = "/" + uriPath[0].toLowerCase() + uriPath.substring(1);
+
+	let encoded = uriPath.split("/").map(function(segment) {
+		return encodeURIComponent(segment).replace(/[!'()*]/g, function(character) {
+			return "%" + character.charCodeAt(0).toString(16).toUpperCase();
+		});
+	}).join("/");
+
+	return "file://" + encoded;
+}
+
+export function UriToPath(uri: string): string {
+	let filePath = decodeURIComponent(uri.replace(/^file:\/\//, ""));
+
+	// "/c:/scripts" => "c:/scripts"
+	if(/^\/[a-zA-Z]:/.test(filePath))
+		filePath = filePath.substring(1);
+
+	return path.normalize(filePath);
+}
+
+// clients do not agree on how to escape uris - the same file must not be indexed twice
+export function NormalizeUri(uri: string): string {
+	if(uri.indexOf("file://") != 0)
+		return uri;
+
+	return PathToUri(UriToPath(uri));
+}
@@ -0,0 +1,344 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { VBSSymbol } from "../VBSSymbols/VBSSymbol";
+import { VBSClassSymbol } from "../VBSSymbols/VBSClassSymbol";
+import { GetVBSSymbolTree } from "../VBSSymbols/VBSSymbolTree";
+import { PathToUri, UriToPath, NormalizeUri } from "./VBSUri";
+import { VBSScriptFile, ParseScriptFile } from "./VBSScriptFile";
+import { VBSInclude, VBSJob } from "../VBSParser/VBSScriptSource";
+import { VBSTokenKind } from "../VBSParser/VBSToken";
+import { GetIncludeUri } from "./VBSIncludes";
+
+const readdir = promisify(fs.readdir);
+const readFile = promisify(fs.readFile);
+const stat = promisify(fs.stat);
+const realpath = promisify(fs.realpath);
+
+export const scriptFileExtensions: string[] = [ ".vbs", ".vba", ".asp", ".inc", ".wsf", ".hta" ];
+
+// folders which never contain scripts of the workspace itself
+const ignoredFolders: string[] = [ "node_modules", "bower_components" ];
+
+export class VBSIndexedFile {
+	public uri: string = "";
+	public symbols: VBSSymbol[] = [];
+	// classes, procedures, class members and global variables - parameters and locals are left out
+	public workspaceSymbols: VBSSymbol[] = [];
+	public includes: VBSInclude[] = [];
+	// the lower case names used in the file - files without the name of a symbol cannot refer to it
+	public names: Set<string> = new Set<string>();
+	// "asp" for ASP pages - see VBSScriptSource
+	public host: string = "";
+	// the jobs of Windows Script Files - each of them sees just its own includes
+	public jobs: VBSJob[] = [];
+	// open documents are indexed from the editor instead of the disk
+	public isOpen: boolean = false;
+	// included files which are no part of the workspace - they are left out of workspace wide queries
+	public isExternal: boolean = false;
+}
+
+// The symbols of every script file in the workspace, whether it is open or not.
+export class VBSWorkspaceIndex {
+	private files: Map<string, VBSIndexedFile> = new Map<string, VBSIndexedFile>();
+	// the normalized uris of the files which include a file directly by the one of the included file -
+	// built on demand and dropped whenever the includes of a file change
+	private includers: Map<string, string[]> = null;
+	// the normalized uris of files which could not be read or parsed - GetFile does not try them
+	// again until they are indexed or removed
+	private failedUris: Set<string> = new Set<string>();
+
+	// indexes all script files below the folder and returns their number
+	public async Crawl(rootPath: string): Promise<number> {
+		let filePaths = await FindScriptFiles(rootPath);
+
+		for (let i = 0; i < filePaths.length; i++) {
+			await this.IndexFile(PathToUri(filePaths[i]));
+			// let requests of the client in between
+			await new Promise(resolve => setImmediate(resolve));
+		}
+
+		return filePaths.length;
+	}
+
+	public async IndexFile(uri: string): Promise<void> {
+		let file = this.files.get(NormalizeUri(uri));
+
+		if(file != null && file.isOpen)
+			return;
+
+		let text: string;
+
+		try {
+			text = await readFile(UriToPath(uri), "utf8");
+		} catch(error) {
+			this.RemoveFile(uri);
+			this.failedUris.add(NormalizeUri(uri));
+			return;
+		}
+
+		// the document might have been opened while the file was read
+		file = this.files.get(NormalizeUri(uri));
+
+		if(file != null && file.isOpen)
+			return;
+
+		let scriptFile = this.ParseFile(uri, text);
+
+		if(scriptFile != null)
+			this.SetFile(scriptFile, false);
+	}
+
+	public UpdateOpenDocument(scriptFile: VBSScriptFile) {
+		this.SetFile(scriptFile, true);
+	}
+
+	// The file of an include is needed right away - it is read from the disk if it is not indexed yet.
+	// Files which the crawl has not found are external until they are indexed. Null if the file
+	// cannot be read or parsed.
+	public GetFile(uri: string): VBSIndexedFile {
+		let key = NormalizeUri(uri);
+		let file = this.files.get(key);
+
+		if(file != null)
+			return file;
+
+		if(this.failedUris.has(key))
+			return null;
+
+		let text: string;
+
+		try {
+			text = fs.readFileSync(UriToPath(uri), "utf8");
+		} catch(error) {
+			this.failedUris.add(key);
+			return null;
+		}
+
+		let scriptFile = this.ParseFile(uri, text);
+		return scriptFile != null ? this.SetFile(scriptFile, false, true) : null;
+	}
+
+	// unsaved changes are gone once a document is closed
+	public CloseDocument(uri: string): Promise<void> {
+		let file = this.files.get(NormalizeUri(uri));
+
+		if(file != null)
+			file.isOpen = false;
+
+		return this.IndexFile(uri);
+	}
+
+	public RemoveFile(uri: string) {
+		this.failedUris.delete(NormalizeUri(uri));
+
+		if(this.files.delete(NormalizeUri(uri)))
+			this.includers = null;
+	}
+
+	// the files which include the file directly - the file itself does not need to exist
+	public GetIncluders(uri: string): VBSIndexedFile[] {
+		if(this.includers == null) {
+			this.includers = new Map<string, string[]>();
+
+			this.files.forEach((file, fileKey) => {
+				file.includes.forEach(include => {
+					let includeUri = GetIncludeUri(include, file.uri);
+
+					if(includeUri == null)
+						return;
+
+					let key = NormalizeUri(includeUri);
+					let includers = this.includers.get(key) || [];
+
+					if(includers.indexOf(fileKey) == -1)
+						this.includers.set(key, includers.concat([ fileKey ]));
+				});
+			});
+		}
+
+		return (this.includers.get(NormalizeUri(uri)) || []).map(key => this.files.get(key));
+	}
+
+	// the includes point to other files once the virtual root changes - see SetVirtualRoot
+	public ResetIncluders() {
+		this.includers = null;
+	}
+
+	// the files of the workspace and the open documents - external includes are left out
+	public GetFiles(): VBSIndexedFile[] {
+		return Array.from(this.files.values()).filter(function(file) { return !file.isExternal; });
+	}
+
+	public IsIndexed(uri: string): boolean {
+		return this.files.has(NormalizeUri(uri));
+	}
+
+	// fuzzy and case insensitive: "lgev" finds "LogEvent" - better matches come first
+	public FindSymbols(query: string, maxResults: number): VBSSymbol[] {
+		let lowerQuery = query.toLowerCase();
+		let matches: { symbol: VBSSymbol, score: number }[] = [];
+
+		this.files.forEach(file => {
+			if(file.isExternal)
+				return;
+
+			file.workspaceSymbols.forEach(symbol => {
+				let score = GetMatchScore(lowerQuery, symbol.name.toLowerCase());
+
+				if(score > -1)
+					matches.push({ symbol: symbol, score: score });
+			});
+		});
+
+		matches.sort(function(a, b) {
+			if(a.score != b.score)
+				return a.score - b.score;
+
+			return a.symbol.name.localeCompare(b.symbol.name);
+		});
+
+		return matches.slice(0, maxResults).map(function(match) { return match.symbol; });
+	}
+
+	// One file the parser cannot cope with must not stop the indexing of the others or the
+	// requests which need its includes - null if the parser fails.
+	private ParseFile(uri: string, text: string): VBSScriptFile {
+		try {
+			return ParseScriptFile(uri, text);
+		} catch(error) {
+			console.error("Could not index '" + uri + "': " + error.message);
+			this.RemoveFile(uri);
+			this.failedUris.add(NormalizeUri(uri));
+			return null;
+		}
+	}
+
+	private SetFile(scriptFile: VBSScriptFile, isOpen: boolean, isExternal: boolean = false): VBSIndexedFile {
+		let file = new VBSIndexedFile();
+		file.uri = scriptFile.uri;
+		file.symbols = scriptFile.symbols;
+		file.workspaceSymbols = GetWorkspaceSymbols(scriptFile.symbols);
+		file.includes = scriptFile.includes;
+		file.names = GetNames(scriptFile);
+		file.host = scriptFile.source.host;
+		file.jobs = scriptFile.source.jobs;
+		file.isOpen = isOpen;
+		file.isExternal = isExternal;
+
+		let key = NormalizeUri(scriptFile.uri);
+		let previousFile = this.files.get(key);
+		this.failedUris.delete(key);
+
+		// the includers stay the same while the code between the includes is edited
+		if(previousFile == null || !HaveSameIncludes(previousFile.includes, file.includes))
+			this.includers = null;
+
+		this.files.set(key, file);
+		return file;
+	}
+}
+
+function HaveSameIncludes(a: VBSInclude[], b: VBSInclude[]): boolean {
+	if(a.length != b.length)
+		return false;
+
+	return a.every(function(include, i) { return include.path == b[i].path && include.isVirtual == b[i].isVirtual; });
+}
+
+function GetNames(scriptFile: VBSScriptFile): Set<string> {
+	let names = new Set<string>();
+
+	scriptFile.program.tokens.forEach(token => {
+		if(token.kind == VBSTokenKind.Identifier)
+			names.add(token.value.toLowerCase());
+	});
+
+	return names;
+}
+
+function GetWorkspaceSymbols(symbols: VBSSymbol[]): VBSSymbol[] {
+	let workspaceSymbols: VBSSymbol[] = [];
+
+	GetVBSSymbolTree(symbols).children.forEach(node => {
+		workspaceSymbols.push(node.data);
+
+		if(node.data instanceof VBSClassSymbol) {
+			node.children.forEach(member => {
+				workspaceSymbols.push(member.data);
+			});
+		}
+	});
+
+	return workspaceSymbols;
+}
+
+// 0: same name, 1: name starts with the query, 2: name contains the query,
+// 3: the characters of the query appear in this order, -1: no match
+function GetMatchScore(lowerQuery: string, lowerName: string): number {
+	if(lowerQuery == lowerName)
+		return 0;
+
+	let index = lowerName.indexOf(lowerQuery);
+
+	if(index == 0)
+		return 1;
+
+	if(index > 0)
+		return 2;
+
+	let nameIndex = 0;
+
+	for (let i = 0; i < lowerQuery.length; i++) {
+		nameIndex = lowerName.indexOf(lowerQuery[i], nameIndex);
+
+		if(nameIndex == -1)
+			return -1;
+
+		nameIndex++;
+	}
+
+	return 3;
+}
+
+// The script files below the folder - hidden folders and the ignored folders are left out. Each
+// folder is searched once, so symbolic links which point to a parent folder are no endless loop.
+export async function FindScriptFiles(folderPath: string, visitedFolders: Set<string> = new Set<string>()): Promise<string[]> {
+	let filePaths: string[] = [];
+	let names: string[];
+
+	try {
+		let realFolderPath = await realpath(folderPath);
+
+		if(visitedFolders.has(realFolderPath))
+			return filePaths;
+
+		visitedFolders.add(realFolderPath);
+		names = await readdir(folderPath);
+	} catch(error) {
+		return filePaths;
+	}
+
+	for (let i = 0; i < names.length; i++) {
+		let name = names[i];
+		let fullPath = path.join(folderPath, name);
+
+		if(name[0] == "." || ignoredFolders.indexOf(name.toLowerCase()) > -1)
+			continue;
+
+		let stats: fs.Stats;
+
+		try {
+			stats = await stat(fullPath);
+		} catch(error) {
+			continue;
+		}
+
+		if(stats.isDirectory())
+			filePaths = filePaths.concat(await FindScriptFiles(fullPath, visitedFolders));
+		else if(scriptFileExtensions.indexOf(path.extname(name).toLowerCase()) > -1)
+			filePaths.push(fullPath);
+	}
+
+	return filePaths;
+}
@@ -0,0 +1,76 @@
+import * as ls from 'vscode-languageserver';
+import { VBSSymbol } from "../VBSSymbols/VBSSymbol";
+import { VBSSymbolResolver } from "../VBSSymbols/VBSSymbolResolver";
+import { FindReferences } from "../VBSSymbols/VBSReferenceFinder";
+import { VBSWorkspaceIndex } from "./VBSWorkspaceIndex";
+import { NormalizeUri } from "./VBSUri";
+import { GiveWay } from "../VBSCancellation";
+
+// the files which can see the symbols of the file: the file itself and every file which includes
+// it - directly or by an included file
+export function GetFilesSeeingSymbolsOf(index: VBSWorkspaceIndex, uri: string): string[] {
+	let uris: string[] = [ uri ];
+	let keys: string[] = [ NormalizeUri(uri) ];
+
+	for (let i = 0; i < uris.length; i++) {
+		index.GetIncluders(uris[i]).forEach(file => {
+			let key = NormalizeUri(file.uri);
+
+			if(keys.indexOf(key) > -1)
+				return;
+
+			keys.push(key);
+			uris.push(file.uri);
+		});
+	}
+
+	return uris;
+}
+
+// the files which can see the symbols used in the document - the document itself for builtins
+export function GetFilesSeeingSymbols(index: VBSWorkspaceIndex, uri: string, targets: VBSSymbol[]): string[] {
+	let uris: string[] = [ uri ];
+
+	targets.forEach(symbol => {
+		if(symbol.isBuiltin || symbol.nameLocation == null)
+			return;
+
+		GetFilesSeeingSymbolsOf(index, symbol.nameLocation.uri).forEach(fileUri => {
+			if(!uris.some(function(known) { return NormalizeUri(known) == NormalizeUri(fileUri); }))
+				uris.push(fileUri);
+		});
+	});
+
+	return uris;
+}
+
+// The usages of the symbols in the given files - declarations only if includeDeclaration is set.
+// Members of objects whose class is unknown do not count. getResolver returns null for files
+// which cannot be read. Other messages get a turn between the files - null if the token is cancelled.
+export async function FindWorkspaceReferences(index: VBSWorkspaceIndex, uris: string[], targets: VBSSymbol[], getResolver: (uri: string) => VBSSymbolResolver, includeDeclaration: boolean = false, token: ls.CancellationToken = ls.CancellationToken.None): Promise<ls.Location[]> {
+	let locations: ls.Location[] = [];
+	let names = targets.map(function(symbol) { return symbol.name.toLowerCase(); });
+
+	for (let i = 0; i < uris.length; i++) {
+		let uri = uris[i];
+		let file = index.GetFile(uri);
+
+		if(file == null || !names.some(function(name) { return file.names.has(name); }))
+			continue;
+
+		if(i > 0 && await GiveWay(token))
+			return null;
+
+		let resolver = getResolver(uri);
+
+		if(resolver == null)
+			continue;
+
+		FindReferences(resolver, targets).forEach(reference => {
+			if((includeDeclaration || !reference.isDeclaration) && reference.isCertain)
+				locations.push(ls.Location.create(uri, reference.range));
+		});
+	}
+
+	return locations;
+}
@@ -4,21 +4,51 @@
  * ------------------------------------------------------------------------------------------ */
 'use strict';
 
-import * as ls from 'vscode-languageserver';
-import { VBSSymbol } from "./VBSSymbols/VBSSymbol";
-import { VBSMethodSymbol } from './VBSSymbols/VBSMethodSymbol';
-import { VBSPropertySymbol } from './VBSSymbols/VBSPropertySymbol';
-import { VBSClassSymbol } from './VBSSymbols/VBSClassSymbol';
-import { VBSMemberSymbol } from './VBSSymbols/VBSMemberSymbol';
-import { VBSVariableSymbol } from './VBSSymbols/VBSVariableSymbol';
-import { VBSConstantSymbol } from './VBSSymbols/VBSConstantSymbol';
-
-// Create a connection for the server. The connection uses Node's IPC as a transport
-let connection: ls.IConnection = ls.createConnection(new ls.IPCMessageReader(process), new ls.IPCMessageWriter(process));
+import * as ls from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { VBSSymbol, VBSCallContext } from "./VBSSymbols/VBSSymbol";
+import { VBSClassSymbol } from "./VBSSymbols/VBSClassSymbol";
+import { VBSMethodSymbol } from "./VBSSymbols/VBSMethodSymbol";
+import { VBSPropertySymbol } from "./VBSSymbols/VBSPropertySymbol";
+import { GetVBSSymbolTree } from './VBSSymbols/VBSSymbolTree';
+import { VBSSymbolResolver } from './VBSSymbols/VBSSymbolResolver';
+import { FindReferences, VBSReference } from './VBSSymbols/VBSReferenceFinder';
+import { PrepareRename, Rename } from './VBSSymbols/VBSRename';
+import { GetSignatureHelp } from './VBSSymbols/VBSSignatureHelp';
+import { GetSemanticTokens, semanticTokensLegend } from './VBSSymbols/VBSSemanticTokens';
+import { VBSProgram } from './VBSParser/VBSSyntaxTree';
+import { VBSWorkspaceIndex, scriptFileExtensions } from './VBSWorkspace/VBSWorkspaceIndex';
+import { GetRuntimeSymbols } from './VBSRuntime/VBSRuntime';
+import { VBSTypeCatalogDefinition, LoadTypeCatalogFile, SetUserTypeCatalogs } from './VBSRuntime/VBSTypeCatalog';
+import { UriToPath, NormalizeUri } from './VBSWorkspace/VBSUri';
+import { VBSScriptFile, ParseScriptFile, UpdateScriptFile } from './VBSWorkspace/VBSScriptFile';
+import { GetIncludeUri, SetVirtualRoot } from './VBSWorkspace/VBSIncludes';
+import { HasMarkup } from './VBSParser/VBSScriptSource';
+import { FormatDocument, VBSFormattingOptions } from './VBSFormatting/VBSFormatter';
+import { GetFoldingRanges } from './VBSFolding/VBSFoldingRanges';
+import { GetFilesSeeingSymbolsOf, GetFilesSeeingSymbols, FindWorkspaceReferences } from './VBSWorkspace/VBSWorkspaceReferences';
+import { IsCallable, CreateCallHierarchyItem, GetIncomingCalls, GetOutgoingCalls } from './VBSWorkspace/VBSCallHierarchy';
+import { GetProcedureMetrics, VBSFileMetrics } from './VBSMetrics/VBSMetrics';
+import { VBSCheckerOptions } from './VBSLinting/VBSChecker';
+import { CreateResolver, LintDocument } from './VBSLinting/VBSLinter';
+import { GetCodeActions, addOptionExplicitKind } from './VBSLinting/VBSQuickFixes';
+import { GetSnippetCompletionItems } from './VBSCompletion/VBSSnippets';
+import { GetCallContext } from './VBSCompletion/VBSCompletionContext';
+import * as path from 'path';
+import * as fs from 'fs';
+
+// Create a connection for the server. The connection uses Node's IPC as a transport. Requests
+// which the client cancels while they are still waiting - because the document has changed in
+// the meantime - are answered right away instead of being computed for the old text.
+let connection: ls.Connection = ls.createConnection(new ls.IPCMessageReader(process), new ls.IPCMessageWriter(process), {
+	cancelUndispatched: (message: ls.Message): ls.ResponseMessage => {
+		return { jsonrpc: message.jsonrpc, id: null, error: new ls.ResponseError(ls.LSPErrorCodes.RequestCancelled, "Request cancelled").toJson() };
+	}
+});
 
 // Create a simple text document manager. The text document manager
-// supports full document sync only
-let documents: ls.TextDocuments = new ls.TextDocuments();
+// applies the incremental changes of the client to its copy of the text
+let documents: ls.TextDocuments<TextDocument> = new ls.TextDocuments(TextDocument);
 // Make the text document manager listen on the connection
 // for open, change and close text document events
 documents.listen(connection);
@@ -26,13 +56,51 @@ documents.listen(connection);
 // After the server has started the client sends an initialize request. The server receives
 // in the passed params the rootPath of the workspace plus the client capabilities.
 let workspaceRoot: string;
-connection.onInitialize((params): ls.InitializeResult => {
+let supportsHierarchicalSymbols: boolean = false;
+connection.onInitialize((params: ls.InitializeParams): ls.InitializeResult => {
 	workspaceRoot = params.rootPath;
+	SetVirtualRoot(workspaceRoot);
+
+	let symbolCapabilities = params.capabilities.textDocument != null ? params.capabilities.textDocument.documentSymbol : null;
+	supportsHierarchicalSymbols = symbolCapabilities != null && symbolCapabilities.hierarchicalDocumentSymbolSupport === true;
+
+	let renameCapabilities = params.capabilities.textDocument != null ? params.capabilities.textDocument.rename : null;
+	let supportsPrepareRename = renameCapabilities != null && renameCapabilities.prepareSupport === true;
+
 	return {
 		capabilities: {
-			// Tell the client that the server works in FULL text document sync mode
-			textDocumentSync: documents.syncKind,
+			// Tell the client that the server works in INCREMENTAL text document sync mode
+			textDocumentSync: ls.TextDocumentSyncKind.Incremental,
 			documentSymbolProvider: true,
+			definitionProvider: true,
+			typeDefinitionProvider: true,
+			referencesProvider: true,
+			documentHighlightProvider: true,
+			renameProvider: supportsPrepareRename ? { prepareProvider: true } : true,
+			hoverProvider: true,
+			documentLinkProvider: {
+				resolveProvider: false
+			},
+			documentFormattingProvider: true,
+			documentRangeFormattingProvider: true,
+			codeActionProvider: {
+				codeActionKinds: [ ls.CodeActionKind.QuickFix, addOptionExplicitKind ]
+			},
+			foldingRangeProvider: true,
+			semanticTokensProvider: {
+				legend: semanticTokensLegend,
+				full: true,
+				range: true
+			},
+			callHierarchyProvider: true,
+			codeLensProvider: {
+				resolveProvider: true
+			},
+			workspaceSymbolProvider: true,
+			// a space starts the arguments of a Sub called without parentheses
+			signatureHelpProvider: {
+				triggerCharacters: [ "(", ",", " " ]
+			},
 			// Tell the client that the server support code complete
 			completionProvider: {
 				resolveProvider: true
@@ -41,22 +109,133 @@ connection.onInitialize((params): ls.InitializeResult => {
 	}
 });
 
+// all script files of the workspace - the open documents are kept up to date by RefreshDocumentsSymbols
+let workspaceIndex = new VBSWorkspaceIndex();
+
+connection.onInitialized(() => {
+	if(workspaceRoot == null)
+		return;
+
+	let startTime: number = Date.now();
+
+	workspaceIndex.Crawl(workspaceRoot).then(count => {
+		console.info("Indexed " + count + " files in '" + workspaceRoot + "': " + (Date.now() - startTime) + " ms");
+	}).catch(error => {
+		console.error("Could not index '" + workspaceRoot + "': " + error.message);
+	});
+});
+
+// the settings of the client in the section "vbsLanguageServer"
+interface VBSSettings {
+	// paths of JSON type catalogs - relative paths start at the workspace folder
+	typeCatalogs?: string[];
+	// the folder of "<!--#include virtual="/..."-->" - the workspace folder if it is empty
+	virtualRoot?: string;
+	// overrides the indentation settings of the editor if they are set
+	format?: {
+		indentSize?: number;
+		insertSpaces?: boolean;
+	};
+	lint?: {
+		// reports undeclared variables of documents without "Option Explicit" as well
+		requireDeclaration?: boolean;
+		// "error", "warning", "information", "hint" or "off" by rule
+		rules?: { [rule: string]: string; };
+	};
+}
+
+let formatSettings: VBSSettings["format"] = {};
+let checkerOptions = new VBSCheckerOptions();
+
+connection.onDidChangeConfiguration((change: ls.DidChangeConfigurationParams) => {
+	let settings: VBSSettings = change.settings != null && change.settings.vbsLanguageServer != null ? change.settings.vbsLanguageServer : {};
+	let catalogs: VBSTypeCatalogDefinition[] = [];
+
+	(settings.typeCatalogs || []).forEach(catalogPath => {
+		let filePath = workspaceRoot != null ? path.resolve(workspaceRoot, catalogPath) : catalogPath;
+
+		try {
+			catalogs.push(LoadTypeCatalogFile(filePath));
+		} catch(error) {
+			console.error("Could not load the type catalog '" + filePath + "': " + error.message);
+		}
+	});
+
+	SetUserTypeCatalogs(catalogs);
+	formatSettings = settings.format || {};
+
+	let lintSettings = settings.lint || {};
+	checkerOptions = new VBSCheckerOptions();
+	checkerOptions.requireDeclaration = lintSettings.requireDeclaration === true;
+	checkerOptions.SetSeverities(lintSettings.rules || {});
+
+	if(settings.virtualRoot != null && settings.virtualRoot != "")
+		SetVirtualRoot(workspaceRoot != null ? path.resolve(workspaceRoot, settings.virtualRoot) : settings.virtualRoot);
+	else
+		SetVirtualRoot(workspaceRoot);
+
+	workspaceIndex.ResetIncluders();
+	ClearResolverCaches();
+
+	// the types and includes of the open documents might have changed
+	documents.all().forEach(document => {
+		RefreshDocumentsSymbols(document.uri);
+		PublishDiagnostics(document.uri);
+	});
+});
+
 // The content of a text document has changed. This event is emitted
 // when the text document first opened or when its content has changed.
-documents.onDidChangeContent((change: ls.TextDocumentChangeEvent) => {
+documents.onDidChangeContent((change: ls.TextDocumentChangeEvent<TextDocument>) => {
+	RefreshDocumentsSymbols(change.document.uri);
+	SchedulePublishDiagnostics(change.document.uri);
+});
+
+documents.onDidClose((event: ls.TextDocumentChangeEvent<TextDocument>) => {
+	CancelPublishDiagnostics(event.document.uri);
+	scriptFileCache[event.document.uri] = null;
+	symbolCache[event.document.uri] = null;
+	diagnosticCache[event.document.uri] = null;
+	syntaxTreeCache[event.document.uri] = null;
+	connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
+	resolverCache.delete(event.document.uri);
+	workspaceProgramCache.delete(NormalizeUri(event.document.uri));
+
+	// the files which include the document see the file on the disk again
+	if(IsWorkspaceScript(event.document.uri)) {
+		workspaceIndex.CloseDocument(event.document.uri).then(() => {
+			ClearResolversSeeing(event.document.uri);
+		});
+	} else {
+		workspaceIndex.RemoveFile(event.document.uri);
+		ClearResolversSeeing(event.document.uri);
+	}
 });
 
 connection.onDidChangeWatchedFiles((changeParams: ls.DidChangeWatchedFilesParams) => {
 	for (let i = 0; i < changeParams.changes.length; i++) {
 		let event = changeParams.changes[i];
+		workspaceProgramCache.delete(NormalizeUri(event.uri));
 
 		switch(event.type) {
 		 case ls.FileChangeType.Changed:
 		 case ls.FileChangeType.Created:
 			RefreshDocumentsSymbols(event.uri);
+
+			// the index of open documents follows the editor instead of the disk
+			if(documents.get(event.uri) == null && IsWorkspaceScript(event.uri)) {
+				workspaceIndex.IndexFile(event.uri).then(() => {
+					ClearResolversSeeing(event.uri);
+				});
+			}
 			break;
 		case ls.FileChangeType.Deleted:
+			scriptFileCache[event.uri] = null;
 			symbolCache[event.uri] = null;
+			diagnosticCache[event.uri] = null;
+			syntaxTreeCache[event.uri] = null;
+			workspaceIndex.RemoveFile(event.uri);
+			ClearResolversSeeing(event.uri);
 			break;
 		}
 	}
@@ -68,45 +247,115 @@ connection.onCompletion((_textDocumentPosition: ls.TextDocumentPositionParams):
 });
 
 connection.onCompletionResolve((complItem: ls.CompletionItem): ls.CompletionItem => {
+	let symbol = complItem.data != null ? FindCompletionSymbol(<VBSCompletionData>complItem.data) : null;
+
+	// snippets are complete already
+	if(symbol == null)
+		return complItem;
+
+	complItem.detail = symbol.GetDeclarationText();
+
+	let documentation = symbol.GetDocumentationMarkdown();
+
+	if(documentation != "")
+		complItem.documentation = { kind: ls.MarkupKind.Markdown, value: documentation };
+
 	return complItem;
 });
 
-function GetSymbolsOfDocument(uri: string) : ls.SymbolInformation[] {
-	RefreshDocumentsSymbols(uri);
-	return VBSSymbol.GetLanguageServerSymbols(symbolCache[uri]);
+function IsWorkspaceScript(uri: string): boolean {
+	if(workspaceRoot == null || uri.indexOf("file://") != 0)
+		return false;
+
+	let filePath = UriToPath(uri);
+	let relativePath = path.relative(workspaceRoot, filePath);
+
+	if(relativePath == "" || relativePath.indexOf("..") == 0 || path.isAbsolute(relativePath))
+		return false;
+
+	return scriptFileExtensions.indexOf(path.extname(filePath).toLowerCase()) > -1;
+}
+
+connection.onWorkspaceSymbol((workspaceSymbolParams: ls.WorkspaceSymbolParams): ls.SymbolInformation[] => {
+	return VBSSymbol.GetLanguageServerSymbols(workspaceIndex.FindSymbols(workspaceSymbolParams.query, 500));
+});
+
+function GetSymbolsOfDocument(uri: string) : ls.SymbolInformation[] | ls.DocumentSymbol[] {
+	let symbols = GetCachedSymbols(uri);
+
+	if(symbols == null)
+		return [];
+
+	// older clients only know the flat list which refers to the parent by name
+	if(!supportsHierarchicalSymbols)
+		return VBSSymbol.GetLanguageServerSymbols(symbols);
+
+	return GetVBSSymbolTree(symbols).GetLsDocumentSymbols();
+}
+
+// Finds the symbol of an item again for completionItem/resolve - the client may have asked for
+// other completion lists in the meantime. The index tells symbols with the same name apart.
+interface VBSCompletionData {
+	uri: string;
+	position: ls.Position;
+	index: number;
+	name: string;
 }
 
 function SelectCompletionItems(textDocumentPosition: ls.TextDocumentPositionParams): ls.CompletionItem[] {
-	let symbols = symbolCache[textDocumentPosition.textDocument.uri];
+	let uri = textDocumentPosition.textDocument.uri;
+	let position = textDocumentPosition.position;
+	let resolver = GetResolver(uri);
+	let members = resolver != null ? resolver.GetMembersForCompletion(position) : null;
+	let symbols = members != null ? members : GetCompletionSymbolsOfScope(uri, position, resolver);
 
-	if(symbols == null) {
-		RefreshDocumentsSymbols(textDocumentPosition.textDocument.uri);
-		symbols = symbolCache[textDocumentPosition.textDocument.uri];
-	}
+	if(symbols == null)
+		return [];
 
-	let scopeSymbols = GetSymbolsOfScope(symbols, textDocumentPosition.position);
-	return VBSSymbol.GetLanguageServerCompletionItems(scopeSymbols);
+	let program = syntaxTreeCache[uri];
+	let items = VBSSymbol.GetLanguageServerCompletionItems(symbols, program != null ? GetCallContext(program, position) : VBSCallContext.Statement);
+
+	items.forEach((item, index) => {
+		let data: VBSCompletionData = { uri: uri, position: position, index: index, name: symbols[index].name };
+		item.data = data;
+	});
+
+	// "obj." only offers the members of the class of the object
+	return members == null && program != null ? items.concat(GetSnippetCompletionItems(program, position)) : items;
 }
 
-function GetVBSSymbolTree(symbols: VBSSymbol[]) {
-	// sort by start positition
-	let sortedSymbols: VBSSymbol[] = symbols.sort(function(a: VBSSymbol, b: VBSSymbol){
-		let diff = a.symbolRange.start.line - b.symbolRange.start.line;
-		
-		if(diff != 0)
-			return diff;
+// the symbols of the scope, of the included files, of the host and of the runtime - null if the
+// document is not open
+function GetCompletionSymbolsOfScope(uri: string, position: ls.Position, resolver: VBSSymbolResolver): VBSSymbol[] {
+	let symbols = GetCachedSymbols(uri);
+
+	if(symbols == null)
+		return null;
 
-		return a.symbolRange.start.character - b.symbolRange.start.character;
+	// the globals of the other jobs of a Windows Script File are left out
+	let scopeSymbols = GetSymbolsOfScope(symbols, position).filter(function(symbol) {
+		return resolver == null || resolver.IsVisibleAt(symbol, position);
 	});
+	let includedSymbols = resolver != null ? resolver.GetIncludedGlobals(position).concat(resolver.hostObjects) : [];
 
-	let root = new VBSSymbolTree();
-	
-	for (var i = 0; i < sortedSymbols.length; i++) {
-		var symbol = sortedSymbols[i];
-		root.InsertIntoTree(symbol);
-	}
+	return scopeSymbols.concat(includedSymbols, GetRuntimeSymbols());
+}
 
-	return root;
+function FindCompletionSymbol(data: VBSCompletionData): VBSSymbol {
+	if(data.uri == null || data.position == null || data.name == null)
+		return null;
+
+	let resolver = GetResolver(data.uri);
+	let members = resolver != null ? resolver.GetMembersForCompletion(data.position) : null;
+	let symbols = members != null ? members : GetCompletionSymbolsOfScope(data.uri, data.position, resolver);
+
+	if(symbols == null)
+		return null;
+
+	if(symbols[data.index] != null && symbols[data.index].name == data.name)
+		return symbols[data.index];
+
+	return symbols.filter(function(symbol) { return symbol.name == data.name; })[0];
 }
 
 function GetSymbolsOfScope(symbols: VBSSymbol[], position: ls.Position): VBSSymbol[] {
@@ -121,753 +370,512 @@ function GetSymbolsOfScope(symbols: VBSSymbol[], position: ls.Position): VBSSymb
 	return symbolTree.FindDirectParent(position).GetAllParentsAndTheirDirectChildren();
 }
 
-class VBSSymbolTree {
-	parent: VBSSymbolTree = null;
-	children: VBSSymbolTree[] = [];
-	data: VBSSymbol = null;
+connection.onDefinition((textDocumentPosition: ls.TextDocumentPositionParams): ls.Location[] => {
+	return GetDefinitions(textDocumentPosition.textDocument.uri, textDocumentPosition.position);
+});
 
-	public InsertIntoTree(symbol: VBSSymbol): boolean {
-		if(this.data != null && !PositionInRange(this.data.symbolRange, symbol.symbolRange.start))
-			return false;
+function GetDefinitions(uri: string, position: ls.Position): ls.Location[] {
+	// the VBScript runtime is not declared anywhere
+	return GetSymbolsAtPosition(uri, position).filter(function(symbol) {
+		return !symbol.isBuiltin;
+	}).map(function(symbol) {
+		return symbol.nameLocation;
+	});
+}
 
-		for (var i = 0; i < this.children.length; i++) {
-			var symbolTree = this.children[i];
-			if(symbolTree.InsertIntoTree(symbol))
-				return true;
-		}
+connection.onTypeDefinition((textDocumentPosition: ls.TextDocumentPositionParams): ls.Location[] => {
+	let resolver = GetResolver(textDocumentPosition.textDocument.uri);
 
-		let newTreeNode = new VBSSymbolTree();
-		newTreeNode.data = symbol;
-		newTreeNode.parent = this;
+	if(resolver == null)
+		return [];
 
-		this.children.push(newTreeNode);
+	let classSymbol = resolver.GetTypeDefinition(textDocumentPosition.position);
+	return classSymbol != null ? [ classSymbol.nameLocation ] : [];
+});
 
-		return true;
-	}
+// the usages in the declaring file and in every file which includes it - like the reference lenses
+connection.onReferences(async (referenceParams: ls.ReferenceParams, token: ls.CancellationToken): Promise<ls.Location[] | ls.ResponseError<void>> => {
+	let uri = referenceParams.textDocument.uri;
+	let targets = GetSymbolsAtPosition(uri, referenceParams.position);
+	let uris = GetFilesSeeingSymbols(workspaceIndex, uri, targets);
+	let locations = await FindWorkspaceReferences(workspaceIndex, uris, targets, GetWorkspaceResolver, referenceParams.context.includeDeclaration, token);
+	return locations != null ? locations : CreateCancelledError();
+});
 
-	public FindDirectParent(position: ls.Position): VBSSymbolTree {
-		if(this.data != null && !PositionInRange(this.data.symbolRange, position))
-			return null;
-		
-		for (var i = 0; i < this.children.length; i++) {
-			let symbolTree = this.children[i];
-			let found = symbolTree.FindDirectParent(position);
-			if(found != null)
-				return found;
-		}
+connection.onDocumentHighlight((textDocumentPosition: ls.TextDocumentPositionParams): ls.DocumentHighlight[] => {
+	let references = GetReferencesOfSymbolAt(textDocumentPosition.textDocument.uri, textDocumentPosition.position);
 
-		return this;
-	}
+	return references.map(function(reference) {
+		let kind: ls.DocumentHighlightKind = ls.DocumentHighlightKind.Read;
 
-	public GetAllParentsAndTheirDirectChildren(): VBSSymbol[] {
-		let symbols: VBSSymbol[];
+		if(reference.isDeclaration)
+			kind = ls.DocumentHighlightKind.Text;
+		else if(reference.isWrite)
+			kind = ls.DocumentHighlightKind.Write;
 
-		if(this.parent != null)
-			symbols = this.parent.GetAllParentsAndTheirDirectChildren();
-		else
-			symbols = [];
-		
-		let childSymbols = this.children.map(function(symbolTree) {
-			return symbolTree.data;
-		});
+		return ls.DocumentHighlight.create(reference.range, kind);
+	});
+});
 
-		return symbols.concat(childSymbols);
-	}
-}
+// resolvers of the open documents - see ClearResolversSeeing
+let resolverCache: Map<string, VBSSymbolResolver> = new Map<string, VBSSymbolResolver>();
 
-function PositionInRange(range: ls.Range, position: ls.Position): boolean {
-	if(range.start.line > position.line)
-		return false;
+function GetResolver(uri: string): VBSSymbolResolver {
+	let symbols = GetCachedSymbols(uri);
+	let program = syntaxTreeCache[uri];
 
-	if(range.end.line < position.line)
-		return false;
+	if(symbols == null || program == null)
+		return null;
 
-	if(range.start.line == position.line && range.start.character >= position.character)
-		return false;
-		
-	if(range.end.line == position.line && range.end.character <= position.character)
-		return false;
+	if(!resolverCache.has(uri))
+		resolverCache.set(uri, CreateResolver(workspaceIndex, uri, program, symbols));
 
-	return true;
+	return resolverCache.get(uri);
 }
 
-let symbolCache: { [id: string] : VBSSymbol[]; } = {};
-function RefreshDocumentsSymbols(uri: string) {
-	let startTime: number = Date.now();
-	let symbolsList: VBSSymbol[] = CollectSymbols(documents.get(uri));
-	symbolCache[uri] = symbolsList;
-	console.info("Found " + symbolsList.length + " symbols in '" + uri + "': " + (Date.now() - startTime) + " ms");
-}
+connection.onDocumentLinks((documentLinkParams: ls.DocumentLinkParams): ls.DocumentLink[] => {
+	let uri = documentLinkParams.textDocument.uri;
+	let file = workspaceIndex.GetFile(uri);
 
-connection.onDocumentSymbol((docParams: ls.DocumentSymbolParams): ls.SymbolInformation[] => {
-	return GetSymbolsOfDocument(docParams.textDocument.uri);
-});
+	if(file == null)
+		return [];
 
-function CollectSymbols(document: ls.TextDocument): VBSSymbol[] {
-	let symbols: Set<VBSSymbol> = new Set<VBSSymbol>();
-	let lines = document.getText().split(/\r?\n/g);
+	let links: ls.DocumentLink[] = [];
 
-	let startMultiLine: number = -1;
-	let multiLines: string[] = [];
+	file.includes.forEach(include => {
+		let includeUri = GetIncludeUri(include, uri);
 
-	for (var i = 0; i < lines.length; i++) {
-		let line = lines[i];
-		
-		let containsComment = line.indexOf("'");
-		if(containsComment > -1)
-			line = line.substring(0, containsComment);
+		if(includeUri != null)
+			links.push(ls.DocumentLink.create(include.range, includeUri));
+	});
 
-		if(startMultiLine == -1)
-			startMultiLine = i;
+	return links;
+});
 
-		if(line.trim().endsWith("_")) {
-			multiLines.push(line.slice(0, -1));
-			continue;
-		} else {
-			multiLines.push(line);
-		}
+connection.onDocumentFormatting((formattingParams: ls.DocumentFormattingParams): ls.TextEdit[] => {
+	return Format(formattingParams.textDocument.uri, formattingParams.options, null);
+});
 
-		multiLines = ReplaceStringLiterals(multiLines);
-		let statements = SplitStatements(multiLines, startMultiLine);
+connection.onDocumentRangeFormatting((formattingParams: ls.DocumentRangeFormattingParams): ls.TextEdit[] => {
+	return Format(formattingParams.textDocument.uri, formattingParams.options, formattingParams.range);
+});
 
-		statements.forEach(statement => {
-			FindSymbol(statement, document.uri, symbols);
-		});
+function Format(uri: string, editorOptions: ls.FormattingOptions, range: ls.Range): ls.TextEdit[] {
+	let document = documents.get(uri);
 
-		startMultiLine =-1;
-		multiLines = [];
-	}
+	// the markup around the code of .wsf and .asp files is left to other formatters
+	if(document == null || HasMarkup(uri))
+		return [];
 
-	return Array.from(symbols);
+	let options = new VBSFormattingOptions();
+	options.indentSize = formatSettings.indentSize != null ? formatSettings.indentSize : editorOptions.tabSize;
+	options.insertSpaces = formatSettings.insertSpaces != null ? formatSettings.insertSpaces : editorOptions.insertSpaces;
+	return FormatDocument(document.getText(), options, range);
 }
 
-class MultiLineStatement {
-	startCharacter: number = 0;
-	startLine: number = -1;
-	lines: string[] = [];
+connection.onCodeAction((codeActionParams: ls.CodeActionParams): ls.CodeAction[] => {
+	let uri = codeActionParams.textDocument.uri;
+	let document = documents.get(uri);
+	let scriptFile = scriptFileCache[uri];
 
-	public GetFullStatement(): string {
-		return " ".repeat(this.startCharacter) + this.lines.join("");
-	}
-
-	public GetPostitionByCharacter(charIndex: number) : ls.Position {
-		let internalIndex = charIndex - this.startCharacter;
+	if(document == null || scriptFile == null)
+		return [];
 
-		for (let i = 0; i < this.lines.length; i++) {
-			let line = this.lines[i];
-			
-			if(internalIndex <= line.length) {
-				if(i == 0)
-					return ls.Position.create(this.startLine + i, internalIndex + this.startCharacter);
-				else
-					return ls.Position.create(this.startLine + i, internalIndex);
+	return GetCodeActions(uri, document.getText(), scriptFile.program, scriptFile.source.jobs, codeActionParams.context);
+});
 
-			}
+connection.onFoldingRanges((foldingRangeParams: ls.FoldingRangeParams): ls.FoldingRange[] => {
+	let program = syntaxTreeCache[foldingRangeParams.textDocument.uri];
 
-			internalIndex = internalIndex - line.length;
+	if(program == null)
+		return [];
 
-			if(internalIndex < 0)
-				break;
-		}
+	return GetFoldingRanges(program);
+});
 
-		console.warn("WARNING: cannot resolve " + charIndex + " in me: " + JSON.stringify(this));
-		return null;
-	}
-}
+connection.languages.semanticTokens.on(async (semanticTokensParams: ls.SemanticTokensParams, token: ls.CancellationToken): Promise<ls.SemanticTokens | ls.ResponseError<void>> => {
+	let uri = semanticTokensParams.textDocument.uri;
+	let resolver = GetResolver(uri);
 
-function SplitStatements(lines: string[], startLineIndex: number): MultiLineStatement[] {
-	let statement: MultiLineStatement = new MultiLineStatement();
-	let statements: MultiLineStatement[] = [];
-	let charOffset: number = 0;
-
-	for (var i = 0; i < lines.length; i++) {
-		var line = lines[i];
-		charOffset = 0;
-		let sts: string[] = line.split(":");
-		
-		if(sts.length == 1) {
-			statement.lines.push(sts[0]);
-			if(statement.startLine == -1) {
-				statement.startLine = startLineIndex + i;
-			}
-		} else {
-			for (var j = 0; j < sts.length; j++) {
-				var st = sts[j];
-				
-				if(statement.startLine == -1)
-					statement.startLine = startLineIndex + i;
-				
-				statement.lines.push(st);
-				
-				if(j == sts.length-1) {
-					break;
-				}
-				
-				statement.startCharacter = charOffset;
-				statements.push(statement);
-				statement = new MultiLineStatement();
-
-				charOffset += st.length 
-					+ 1; // ":"
-			}
-		}
-	}
+	if(resolver == null)
+		return { data: [] };
 
-	if(statement.startLine != -1) {
-		statement.startCharacter = charOffset;
-		statements.push(statement);
-	}
+	let semanticTokens = await GetSemanticTokens(resolver, uri, null, GetDocumentToken(uri, token));
+	return semanticTokens != null ? semanticTokens : CreateCancelledError();
+});
 
-	return statements;
-}
+connection.languages.semanticTokens.onRange(async (semanticTokensParams: ls.SemanticTokensRangeParams, token: ls.CancellationToken): Promise<ls.SemanticTokens | ls.ResponseError<void>> => {
+	let uri = semanticTokensParams.textDocument.uri;
+	let resolver = GetResolver(uri);
 
-function ReplaceStringLiterals(lines:string[]) : string[] {
-	let newLines: string[] = [];
+	if(resolver == null)
+		return { data: [] };
 
-	for (var i = 0; i < lines.length; i++) {
-		var line = lines[i];
-		let stringLiterals = /\"(([^\"]|\"\")*)\"/gi;
-		newLines.push(line.replace(stringLiterals, ReplaceBySpaces));
-	}
+	let semanticTokens = await GetSemanticTokens(resolver, uri, semanticTokensParams.range, GetDocumentToken(uri, token));
+	return semanticTokens != null ? semanticTokens : CreateCancelledError();
+});
 
-	return newLines;
-}
+connection.languages.callHierarchy.onPrepare((prepareParams: ls.CallHierarchyPrepareParams): ls.CallHierarchyItem[] => {
+	let symbols = GetSymbolsAtPosition(prepareParams.textDocument.uri, prepareParams.position).filter(IsCallable);
 
-function ReplaceBySpaces(match: string) : string {
-	return " ".repeat(match.length);
-}
+	if(symbols.length == 0)
+		return null;
 
-function AddArrayToSet(s: Set<any>, a: any[]) {
-	a.forEach(element => {
-		s.add(element);
-	});
-}
+	return symbols.map(CreateCallHierarchyItem);
+});
 
-function FindSymbol(statement: MultiLineStatement, uri: string, symbols: Set<VBSSymbol>) : void {
-	let newSym: VBSSymbol;
-	let newSyms: VBSVariableSymbol[] = null;
+connection.languages.callHierarchy.onIncomingCalls(async (incomingParams: ls.CallHierarchyIncomingCallsParams, token: ls.CancellationToken): Promise<ls.CallHierarchyIncomingCall[] | ls.ResponseError<void>> => {
+	let calls = await GetIncomingCalls(workspaceIndex, incomingParams.item, GetWorkspaceResolver, token);
+	return calls != null ? calls : CreateCancelledError();
+});
 
-	if(GetMethodStart(statement, uri)) {
-		return;
-	}
+connection.languages.callHierarchy.onOutgoingCalls((outgoingParams: ls.CallHierarchyOutgoingCallsParams): ls.CallHierarchyOutgoingCall[] => {
+	return GetOutgoingCalls(workspaceIndex, outgoingParams.item, GetWorkspaceResolver);
+});
 
-	newSyms = GetMethodSymbol(statement, uri);
-	if(newSyms != null && newSyms.length != 0) {
-		AddArrayToSet(symbols, newSyms);
-		return;
-	}
+// the data of a reference count lens - the count is searched when the lens becomes visible
+interface VBSReferencesLensData {
+	uri: string;
+	position: ls.Position;
+}
 
-	if(GetPropertyStart(statement, uri))
-		return;
+connection.onCodeLens((codeLensParams: ls.CodeLensParams): ls.CodeLens[] => {
+	let uri = codeLensParams.textDocument.uri;
+	let symbols = GetCachedSymbols(uri);
+	let program = syntaxTreeCache[uri];
 
-	newSyms = GetPropertySymbol(statement, uri);;
-	if(newSyms != null && newSyms.length != 0) {
-		AddArrayToSet(symbols, newSyms);
-		return;
-	}
+	if(symbols == null || program == null)
+		return [];
 
-	if(GetClassStart(statement, uri))
-		return;
+	let lenses: ls.CodeLens[] = [];
 
-	newSym = GetClassSymbol(statement, uri);
-	if(newSym != null) {
-		symbols.add(newSym);
-		return;
-	}
+	symbols.forEach(symbol => {
+		if(symbol instanceof VBSClassSymbol || symbol instanceof VBSMethodSymbol || symbol instanceof VBSPropertySymbol) {
+			let data: VBSReferencesLensData = { uri: uri, position: symbol.nameLocation.range.start };
+			lenses.push(ls.CodeLens.create(symbol.nameLocation.range, data));
+		}
+	});
 
-	newSym = GetMemberSymbol(statement, uri);
-	if(newSym != null) {
-		symbols.add(newSym);
-		return;
-	}
+	GetProcedureMetrics(program).forEach(metrics => {
+		let title = "Complexity " + metrics.complexity + ", " + metrics.lineCount + (metrics.lineCount == 1 ? " line" : " lines");
+		let lens = ls.CodeLens.create(metrics.nameRange);
+		// an empty command cannot be clicked
+		lens.command = ls.Command.create(title, "");
+		lenses.push(lens);
+	});
 
-	newSyms = GetVariableSymbol(statement, uri);
-	if(newSyms != null && newSyms.length != 0) {
-		AddArrayToSet(symbols, newSyms);
-		return;
-	}
+	return lenses;
+});
 
-	newSym = GetConstantSymbol(statement, uri);
-	if(newSym != null) {
-		symbols.add(newSym);
-		return;
-	}
-}
+connection.onCodeLensResolve(async (codeLens: ls.CodeLens, token: ls.CancellationToken): Promise<ls.CodeLens | ls.ResponseError<void>> => {
+	let data: VBSReferencesLensData = codeLens.data;
+	let symbols = GetCachedSymbols(data.uri) || [];
+	let symbol = symbols.filter(function(candidate) {
+		return candidate.nameLocation.range.start.line == data.position.line && candidate.nameLocation.range.start.character == data.position.character;
+	})[0];
+	let locations: ls.Location[] = [];
 
-let openClassName : string = null;
-let openClassStart : ls.Position = ls.Position.create(-1, -1);
+	if(symbol != null)
+		locations = await FindWorkspaceReferences(workspaceIndex, GetFilesSeeingSymbolsOf(workspaceIndex, data.uri), [ symbol ], GetWorkspaceResolver, false, token);
 
-class OpenMethod {
-	visibility: string;
-	type: string;
-	name: string;
-	argsIndex: number;
-	args: string;
-	startPosition: ls.Position;
-	nameLocation: ls.Location;
-	statement: MultiLineStatement;
-}
+	if(locations == null)
+		return CreateCancelledError();
 
-let openMethod: OpenMethod = null;
+	let title = locations.length + (locations.length == 1 ? " reference" : " references");
+	// the client turns the arguments into the types of "editor.action.showReferences"
+	codeLens.command = ls.Command.create(title, "vbsLanguageServer.showReferences", data.uri, data.position, locations);
+	return codeLens;
+});
 
-function GetMethodStart(statement: MultiLineStatement, uri: string): boolean {
-	let line = statement.GetFullStatement();
+// the metrics of every procedure of the file - or of the workspace if there is no uri
+connection.onRequest("vbsLanguageServer/procedureMetrics", (params: { uri?: string }): VBSFileMetrics[] => {
+	let uris = params != null && params.uri != null ? [ params.uri ] : workspaceIndex.GetFiles().map(function(file) { return file.uri; });
+	let fileMetrics: VBSFileMetrics[] = [];
 
-	let rex:RegExp = /^\s*(?<visibility>public\s+|private\s+)?(?<type>function|sub)(\s+)(?<name>[a-zA-Z0-9\-\_]+)(\s*)(?<args>\(.*\))?\s*$/gi;
-	let regexResult = rex.exec(line);
+	uris.forEach(uri => {
+		let program = GetWorkspaceProgram(uri);
 
-	if(regexResult == null || regexResult.length < 6)
-		return;
+		if(program == null)
+			return;
 
-	if(openMethod == null) {
-		let leadingSpaces = GetNumberOfFrontSpaces(line);
-		let preLength = leadingSpaces + regexResult.index;
+		let metrics = new VBSFileMetrics();
+		metrics.uri = uri;
+		metrics.procedures = GetProcedureMetrics(program);
+		fileMetrics.push(metrics);
+	});
 
-		for (var i = 1; i < 6; i++) {
-			var resElement = regexResult[i];
-			if(resElement != null)
-				preLength += resElement.length;
-		}
+	return fileMetrics;
+});
 
-		openMethod = {
-			visibility: regexResult.groups.visibility,
-			type: regexResult.groups.type,
-			name: regexResult.groups.name,
-			argsIndex: preLength + 1, // opening bracket
-			args: regexResult.groups.args,
-			startPosition: statement.GetPostitionByCharacter(leadingSpaces),
-			nameLocation: ls.Location.create(uri, ls.Range.create(
-				statement.GetPostitionByCharacter(line.indexOf(regexResult.groups.name)),
-				statement.GetPostitionByCharacter(line.indexOf(regexResult.groups.name) + regexResult.groups.name.length))
-			),
-			statement: statement
-		};
-		
-		if(openMethod.args == null)
-			openMethod.args = "";
-
-		return true;
-	} else {
-		// ERROR!!! I expected "end function|sub"!
-		console.error("ERROR - line " + statement.startLine + " at " + statement.startCharacter + ": 'end " + openMethod.type + "' expected!");
-	}
+// resolvers of files which are not open - see ClearResolversSeeing
+let workspaceResolverCache: Map<string, VBSSymbolResolver> = new Map<string, VBSSymbolResolver>();
+// the syntax trees of the files which are not open by their normalized uri - cleared when the file changes on the disk
+let workspaceProgramCache: Map<string, VBSProgram> = new Map<string, VBSProgram>();
 
-	return false;
+function ClearResolverCaches() {
+	resolverCache.clear();
+	workspaceResolverCache.clear();
 }
 
-function GetMethodSymbol(statement: MultiLineStatement, uri: string) : VBSSymbol[] {
-	let line: string = statement.GetFullStatement();
-
-	let classEndRegex:RegExp = /^[ \t]*end[ \t]+(function|sub)[ \t]*$/gi;
+// The resolvers of a file and of the files which include it know the symbols of the file. The
+// syntax trees of the including files stay.
+function ClearResolversSeeing(uri: string) {
+	GetFilesSeeingSymbolsOf(workspaceIndex, uri).forEach(fileUri => {
+		resolverCache.delete(fileUri);
+		workspaceResolverCache.delete(fileUri);
+	});
+}
 
-	let regexResult = classEndRegex.exec(line);
+// the resolver of any script of the workspace - null if the file cannot be read
+function GetWorkspaceResolver(uri: string): VBSSymbolResolver {
+	let file = workspaceIndex.GetFile(uri);
 
-	if(regexResult == null || regexResult.length < 2)
+	if(file == null)
 		return null;
 
-	let type = regexResult[1];
+	if(file.isOpen)
+		return GetResolver(file.uri);
 
-	if(openMethod == null) {
-		// ERROR!!! I cannot close any method!
-		console.error("ERROR - line " + statement.startLine + " at " + statement.startCharacter + ": There is no " + type + " to end!");
-		return null;
-	}
+	if(!workspaceResolverCache.has(file.uri)) {
+		let program = GetWorkspaceProgram(file.uri);
 
-	if(type.toLowerCase() != openMethod.type.toLowerCase()) {
-		// ERROR!!! I expected end function|sub and not sub|function!
-		// show the user the error and then go on like it was the right type!
-		console.error("ERROR - line " + statement.startLine + " at " + statement.startCharacter + ": 'end " + openMethod.type + "' expected!");
+		// the symbols of the index, so references of other files find the same symbol objects
+		let resolver = program != null ? CreateResolver(workspaceIndex, file.uri, program, file.symbols) : null;
+		workspaceResolverCache.set(file.uri, resolver);
 	}
 
-	let range: ls.Range = ls.Range.create(openMethod.startPosition, statement.GetPostitionByCharacter(GetNumberOfFrontSpaces(line) + regexResult[0].trim().length))
-	
-	let symbol: VBSMethodSymbol = new VBSMethodSymbol();
-	symbol.visibility = openMethod.visibility;
-	symbol.type = openMethod.type;
-	symbol.name = openMethod.name;
-	symbol.args = openMethod.args;
-	symbol.nameLocation = openMethod.nameLocation;
-	symbol.parentName = openClassName;
-	symbol.symbolRange = range;
-
-	let parametersSymbol = GetParameterSymbols(openMethod.args, openMethod.argsIndex, openMethod.statement, uri);
-
-	openMethod = null;
-
-	//return [symbol];
-	return parametersSymbol.concat(symbol);
+	return workspaceResolverCache.get(file.uri);
 }
 
-function ReplaceAll(target: string, search: string, replacement: string): string {
-    return target.replace(new RegExp(search, 'g'), replacement);
-};
-
-function GetParameterSymbols(args: string, argsIndex: number, statement: MultiLineStatement, uri: string): VBSVariableSymbol[] {
-	let symbols: VBSVariableSymbol[] = [];
-
-	if(args == null || args == "")
-		return symbols;
+// the syntax tree of any script of the workspace - files which are not open are read from the disk once
+function GetWorkspaceProgram(uri: string): VBSProgram {
+	let file = workspaceIndex.GetFile(uri);
 
-	let argsSplitted: string[] = args.split(',');
+	if(file != null && file.isOpen) {
+		GetCachedSymbols(file.uri);
+		return syntaxTreeCache[file.uri];
+	}
 
-	for (let i = 0; i < argsSplitted.length; i++) {
-		let arg = argsSplitted[i];
-		
-		let splittedByValByRefName = ReplaceAll(ReplaceAll(arg, "\t", " "), "  ", " ").trim().split(" ");
+	let key = NormalizeUri(uri);
 
-		let varSymbol:VBSVariableSymbol = new VBSVariableSymbol();
-		varSymbol.args = "";
-		varSymbol.type = "";
-		varSymbol.visibility = "";
+	if(!workspaceProgramCache.has(key)) {
+		let program: VBSProgram;
 
-		if(splittedByValByRefName.length == 1)
-			varSymbol.name = splittedByValByRefName[0].trim();
-		else if(splittedByValByRefName.length > 1)
-		{
-			// ByVal or ByRef
-			varSymbol.type = splittedByValByRefName[0].trim();
-			varSymbol.name = splittedByValByRefName[1].trim();
+		try {
+			program = ParseScriptFile(uri, fs.readFileSync(UriToPath(uri), "utf8")).program;
+		} catch(error) {
+			program = null;
 		}
 
-		let range = ls.Range.create(
-			statement.GetPostitionByCharacter(argsIndex + arg.indexOf(varSymbol.name)),
-			statement.GetPostitionByCharacter(argsIndex + arg.indexOf(varSymbol.name) + varSymbol.name.length)
-		);
-		varSymbol.nameLocation = ls.Location.create(uri, range);
-		varSymbol.symbolRange = range;
-
-		symbols.push(varSymbol);
-		argsIndex += arg.length + 1; // comma
+		workspaceProgramCache.set(key, program);
 	}
 
-	return symbols;
+	return workspaceProgramCache.get(key);
 }
 
-function GetNumberOfFrontSpaces(line: string): number {
-	let counter: number = 0;
-
-	for (var i = 0; i < line.length; i++) {
-		var char = line[i];
-		if(char == " " || char == "\t")
-			counter++;
-		else
-			break;
-	}
+function GetSymbolsAtPosition(uri: string, position: ls.Position): VBSSymbol[] {
+	let resolver = GetResolver(uri);
 
-	return counter;
-}
+	if(resolver == null)
+		return [];
 
-class OpenProperty {
-	visibility: string;
-	type: string;
-	name: string;
-	argsIndex: number;
-	args: string;
-	startPosition: ls.Position;
-	nameLocation: ls.Location;
-	statement: MultiLineStatement;
-}
+	let identifier = resolver.GetIdentifierAt(position);
 
-let openProperty: OpenProperty = null;
+	if(identifier == null)
+		return [];
 
-function GetPropertyStart(statement: MultiLineStatement, uri: string) : boolean {
-	let line: string = statement.GetFullStatement();
+	return resolver.Resolve(identifier).symbols;
+}
 
-	let propertyStartRegex:RegExp = /^[ \t]*(public[ \t]+|private[ \t]+)?(default[ \t]+)?(property[ \t]+)(let[ \t]+|set[ \t]+|get[ \t]+)([a-zA-Z0-9\-\_]+)([ \t]*)(\(([a-zA-Z0-9\_\-, \t(\(\))]*)\))?[ \t]*$/gi;
-	let regexResult = propertyStartRegex.exec(line);
+function GetReferencesOfSymbolAt(uri: string, position: ls.Position): VBSReference[] {
+	let resolver = GetResolver(uri);
 
-	if(regexResult == null || regexResult.length < 6)
-		return null;
+	if(resolver == null)
+		return [];
 
-	let leadingSpaces = GetNumberOfFrontSpaces(line);
-	let preLength = leadingSpaces + regexResult.index;
-	
-	for (var i = 1; i < 7; i++) {
-		var resElement = regexResult[i];
-		if(resElement != null)
-			preLength += resElement.length;
-	}
+	let identifier = resolver.GetIdentifierAt(position);
 
-	if(openProperty == null) {
-		openProperty = {
-			visibility: regexResult[1],
-			type: regexResult[4],
-			name: regexResult[5],
-			argsIndex: preLength + 1,
-			args: regexResult[8],
-			startPosition: statement.GetPostitionByCharacter(leadingSpaces),
-			nameLocation: ls.Location.create(uri, ls.Range.create(
-				statement.GetPostitionByCharacter(line.indexOf(regexResult[5])),
-				statement.GetPostitionByCharacter(line.indexOf(regexResult[5]) + regexResult[5].length))
-			),
-			statement: statement
-		};
-
-		if(openProperty.args == null)
-			openProperty.args = "";
-
-		return true;
-	} else {
-		// ERROR!!! I expected "end function|sub"!
-		console.error("ERROR - line " + statement.startLine + " at " + statement.startCharacter + ": 'end property' expected!");
-	}
+	if(identifier == null)
+		return [];
 
-	return false;
+	return FindReferences(resolver, resolver.Resolve(identifier).symbols);
 }
 
-function GetPropertySymbol(statement: MultiLineStatement, uri: string) : VBSSymbol[] {
-	let line: string = statement.GetFullStatement();
+connection.onHover((textDocumentPosition: ls.TextDocumentPositionParams): ls.Hover => {
+	let resolver = GetResolver(textDocumentPosition.textDocument.uri);
 
-	let classEndRegex:RegExp = /^[ \t]*end[ \t]+property[ \t]*$/gi;
+	if(resolver == null)
+		return null;
 
-	let regexResult = classEndRegex.exec(line);
+	let identifier = resolver.GetIdentifierAt(textDocumentPosition.position);
 
-	if(regexResult == null || regexResult.length < 1)
+	if(identifier == null)
 		return null;
 
-	if(openProperty == null) {
-		// ERROR!!! I cannot close any property!
-		console.error("ERROR - line " + statement.startLine + " at " + statement.startCharacter + ": There is no property to end!");
-		return null;
-	}
+	let symbols = resolver.Resolve(identifier).symbols;
 
-	// range of the whole definition
-	let range: ls.Range = ls.Range.create(
-		openProperty.startPosition, 
-		statement.GetPostitionByCharacter(GetNumberOfFrontSpaces(line) + regexResult[0].trim().length)
-	);
-	
-	let symbol = new VBSPropertySymbol();
-	symbol.visibility = "";
-	symbol.type = openProperty.type;
-	symbol.name = openProperty.name;
-	symbol.args = openProperty.args;
-	symbol.symbolRange = range;
-	symbol.nameLocation = openProperty.nameLocation;
-	symbol.parentName = openClassName;
-	symbol.symbolRange = range;
-
-	let parametersSymbol = GetParameterSymbols(openProperty.args, openProperty.argsIndex, openProperty.statement, uri);
-
-	openProperty = null;
-
-	return parametersSymbol.concat(symbol);
-}
+	if(symbols.length == 0)
+		return null;
 
-function GetMemberSymbol(statement: MultiLineStatement, uri: string) : VBSMemberSymbol {
-	let line: string = statement.GetFullStatement();
+	return {
+		contents: {
+			kind: ls.MarkupKind.Markdown,
+			value: symbols.map(function(symbol) { return symbol.GetHoverMarkdown(); }).join("\n\n---\n\n")
+		},
+		range: identifier.token.range
+	};
+});
 
-	let memberStartRegex:RegExp = /^[ \t]*(public[ \t]+|private[ \t]+)([a-zA-Z0-9\-\_]+)[ \t]*$/gi;
-	let regexResult = memberStartRegex.exec(line);
+connection.onSignatureHelp((signatureHelpParams: ls.SignatureHelpParams): ls.SignatureHelp => {
+	let resolver = GetResolver(signatureHelpParams.textDocument.uri);
 
-	if(regexResult == null || regexResult.length < 3)
+	if(resolver == null)
 		return null;
 
-	let visibility = regexResult[1];
-	let name = regexResult[2];
-	let intendention = GetNumberOfFrontSpaces(line);
-	let nameStartIndex = line.indexOf(line);
-
-	let range: ls.Range = ls.Range.create(
-		statement.GetPostitionByCharacter(intendention), 
-		statement.GetPostitionByCharacter(intendention + regexResult[0].trim().length)
-	);
-	
-	let symbol: VBSMemberSymbol = new VBSMemberSymbol();
-	symbol.visibility = visibility;
-	symbol.type = "";
-	symbol.name = name;
-	symbol.args = "";
-	symbol.symbolRange = range;
-	symbol.nameLocation = ls.Location.create(uri, 
-		ls.Range.create(
-			statement.GetPostitionByCharacter(nameStartIndex),
-			statement.GetPostitionByCharacter(nameStartIndex + name.length)
-		)
-	);
-	symbol.parentName = openClassName;
-
-	return symbol;
-}
+	return GetSignatureHelp(resolver, signatureHelpParams.position);
+});
 
-function GetVariableNamesFromList(vars: string): string[] {
-	return vars.split(',').map(function(s) { return s.trim(); });
-}
+connection.onPrepareRename((prepareRenameParams: ls.PrepareRenameParams) => {
+	let resolver = GetResolver(prepareRenameParams.textDocument.uri);
+
+	if(resolver == null)
+		return null;
 
-function GetVariableSymbol(statement: MultiLineStatement, uri: string) : VBSVariableSymbol[] {
-	let line: string = statement.GetFullStatement();
+	return PrepareRename(resolver, prepareRenameParams.position);
+});
 
-	let variableSymbols: VBSVariableSymbol[] = [];
-	let memberStartRegex:RegExp = /^[ \t]*(dim[ \t]+)(([a-zA-Z0-9\-\_]+[ \t]*\,[ \t]*)*)([a-zA-Z0-9\-\_]+)[ \t]*$/gi;
-	let regexResult = memberStartRegex.exec(line);
+connection.onRenameRequest((renameParams: ls.RenameParams) => {
+	let resolver = GetResolver(renameParams.textDocument.uri);
 
-	if(regexResult == null || regexResult.length < 3)
+	if(resolver == null)
 		return null;
 
-	// (dim[ \t]+)
-	let visibility = regexResult[1];
-	let variables = GetVariableNamesFromList(regexResult[2] + regexResult[4]);
-	let intendention = GetNumberOfFrontSpaces(line);
-	let nameStartIndex = line.indexOf(line);
-	let firstElementOffset = visibility.length;
-	let parentName: string = "";
-
-	if(openClassName != null)
-		parentName = openClassName;
-
-	if(openMethod != null)
-		parentName = openMethod.name;
-
-	if(openProperty != null)
-		parentName = openProperty.name;
-
-	for (let i = 0; i < variables.length; i++) {
-		let varName = variables[i];
-		let symbol: VBSVariableSymbol = new VBSVariableSymbol();
-		symbol.visibility = "";
-		symbol.type = "";
-		symbol.name = varName;
-		symbol.args = "";
-		symbol.nameLocation = ls.Location.create(uri, 
-			GetNameRange(statement, varName )
-		);
-		
-		symbol.symbolRange = ls.Range.create(
-			ls.Position.create(symbol.nameLocation.range.start.line, symbol.nameLocation.range.start.character - firstElementOffset), 
-			ls.Position.create(symbol.nameLocation.range.end.line, symbol.nameLocation.range.end.character)
-		);
-		
-		firstElementOffset = 0;
-		symbol.parentName = parentName;
-		
-		variableSymbols.push(symbol);
-	}
+	// the globals of included files are renamed in the files which include them as well
+	return Rename(resolver, renameParams.position, renameParams.newName, targets => {
+		let resolvers: VBSSymbolResolver[] = [ resolver ];
 
-	return variableSymbols;
-}
+		GetFilesSeeingSymbols(workspaceIndex, resolver.uri, targets).slice(1).forEach(uri => {
+			let fileResolver = GetWorkspaceResolver(uri);
 
-function GetNameRange(statement: MultiLineStatement, name: string): ls.Range {
-	let line: string = statement.GetFullStatement();
+			if(fileResolver != null)
+				resolvers.push(fileResolver);
+		});
 
-	let findVariableName = new RegExp("(" + name.trim() + "[ \t]*)(\,|$)","gi");
-	let matches = findVariableName.exec(line);
+		return resolvers;
+	});
+});
 
-	let rng = ls.Range.create(
-		statement.GetPostitionByCharacter(matches.index),
-		statement.GetPostitionByCharacter(matches.index + name.trim().length)
-	);
+// The syntax tree of a document is updated in place while it is edited - requests about the
+// document are outdated once its version changes or it is closed.
+function GetDocumentToken(uri: string, token: ls.CancellationToken): ls.CancellationToken {
+	let document = documents.get(uri);
+	let version = document != null ? document.version : -1;
 
-	return rng;
+	return {
+		get isCancellationRequested(): boolean {
+			let current = documents.get(uri);
+			return token.isCancellationRequested || current == null || current.version != version;
+		},
+		onCancellationRequested: token.onCancellationRequested
+	};
 }
 
-function GetConstantSymbol(statement: MultiLineStatement, uri: string) : VBSConstantSymbol {
-	if(openMethod != null || openProperty != null)
-		return null;
+function CreateCancelledError(): ls.ResponseError<void> {
+	return new ls.ResponseError<void>(ls.LSPErrorCodes.RequestCancelled, "Request cancelled");
+}
 
-	let line: string = statement.GetFullStatement();
+let scriptFileCache: { [id: string] : VBSScriptFile; } = {};
+let symbolCache: { [id: string] : VBSSymbol[]; } = {};
+let diagnosticCache: { [id: string] : ls.Diagnostic[]; } = {};
+let syntaxTreeCache: { [id: string] : VBSProgram; } = {};
 
-	let memberStartRegex:RegExp = /^[ \t]*(public[ \t]+|private[ \t]+)?const[ \t]+([a-zA-Z0-9\-\_]+)[ \t]*\=.*$/gi;
-	let regexResult = memberStartRegex.exec(line);
+function GetCachedSymbols(uri: string): VBSSymbol[] {
+	if(symbolCache[uri] == null)
+		RefreshDocumentsSymbols(uri);
 
-	if(regexResult == null || regexResult.length < 3)
-		return null;
+	return symbolCache[uri];
+}
+
+function RefreshDocumentsSymbols(uri: string) {
+	let startTime: number = Date.now();
+	let document = documents.get(uri);
 
-	let visibility = regexResult[1];
-	if(visibility != null)
-		visibility = visibility.trim();
-
-	let name = regexResult[2].trim();
-	let intendention = GetNumberOfFrontSpaces(line);
-	let nameStartIndex = line.indexOf(line);
-
-	let range: ls.Range = ls.Range.create(
-		statement.GetPostitionByCharacter(intendention), 
-		statement.GetPostitionByCharacter(intendention + regexResult[0].trim().length)
-	);
-	
-	let parentName: string = "";
-	
-	if(openClassName != null)
-		parentName = openClassName;
-
-	if(openMethod != null)
-		parentName = openMethod.name;
-
-	if(openProperty != null)
-		parentName = openProperty.name;
-
-	let symbol: VBSConstantSymbol = new VBSConstantSymbol();
-	symbol.visibility = visibility;
-	symbol.type = "";
-	symbol.name = name;
-	symbol.args = "";
-	symbol.symbolRange = range;
-	symbol.nameLocation = ls.Location.create(uri, 
-		ls.Range.create(
-			statement.GetPostitionByCharacter(nameStartIndex),
-			statement.GetPostitionByCharacter(nameStartIndex + name.length)
-		)
-	);
-	symbol.parentName = parentName;
-
-	return symbol;
+	if(document == null)
+		return;
+
+	// just the changed procedure or class is parsed again while the document is edited
+	let previousFile = scriptFileCache[uri];
+	let scriptFile = previousFile != null ? UpdateScriptFile(previousFile, document.getText()) : ParseScriptFile(uri, document.getText());
+	let symbolsList: VBSSymbol[] = scriptFile.symbols;
+	scriptFileCache[uri] = scriptFile;
+	symbolCache[uri] = symbolsList;
+	syntaxTreeCache[uri] = scriptFile.program;
+	workspaceIndex.UpdateOpenDocument(scriptFile);
+	workspaceProgramCache.delete(NormalizeUri(uri));
+	ClearResolversSeeing(uri);
+	console.info("Found " + symbolsList.length + " symbols in '" + uri + "': " + (Date.now() - startTime) + " ms");
 }
 
-function GetClassStart(statement: MultiLineStatement, uri: string) : boolean {
-	let line: string = statement.GetFullStatement();
+// the checks of a document run once the user has stopped typing for a moment
+const diagnosticsDelay: number = 300;
+let diagnosticTimers: Map<string, NodeJS.Timer> = new Map<string, NodeJS.Timer>();
+// the checks which are running - a newer run or closing the document cancels them
+let diagnosticRuns: Map<string, ls.CancellationTokenSource> = new Map<string, ls.CancellationTokenSource>();
 
-	let classStartRegex:RegExp = /^[ \t]*class[ \t]+([a-zA-Z0-9\-\_]+)[ \t]*$/gi;
-	let regexResult = classStartRegex.exec(line);
+function SchedulePublishDiagnostics(uri: string) {
+	CancelPublishDiagnostics(uri);
 
-	if(regexResult == null || regexResult.length < 2)
-		return false;
+	diagnosticTimers.set(uri, setTimeout(() => {
+		diagnosticTimers.delete(uri);
+		PublishDiagnostics(uri);
+	}, diagnosticsDelay));
+}
 
-	let name = regexResult[1];
-	openClassName = name;
-	openClassStart = statement.GetPostitionByCharacter(GetNumberOfFrontSpaces(line));
+function CancelPublishDiagnostics(uri: string) {
+	if(diagnosticRuns.has(uri)) {
+		diagnosticRuns.get(uri).cancel();
+		diagnosticRuns.delete(uri);
+	}
 
-	return true;
+	if(!diagnosticTimers.has(uri))
+		return;
+
+	clearTimeout(diagnosticTimers.get(uri));
+	diagnosticTimers.delete(uri);
 }
 
-function GetClassSymbol(statement: MultiLineStatement, uri: string) : VBSClassSymbol {
-	let line: string = statement.GetFullStatement();
+// nobody waits for the diagnostics - errors are logged instead of being thrown
+async function PublishDiagnostics(uri: string) {
+	CancelPublishDiagnostics(uri);
 
-	let classEndRegex:RegExp = /^[ \t]*end[ \t]+class[ \t]*$/gi;
+	let run = new ls.CancellationTokenSource();
+	diagnosticRuns.set(uri, run);
 
-	if(openClassName == null)
-		return null;
-	
-	let regexResult = classEndRegex.exec(line);
+	try {
+		let resolver = GetResolver(uri);
 
-	if(regexResult == null || regexResult.length < 1)
-		return null;
+		if(resolver == null)
+			return;
 
-	if(openMethod != null) {
-		// ERROR! expected to close method before!
-		console.error("ERROR - line " + statement.startLine + " at " + statement.startCharacter + ": 'end " + openMethod.type + "' expected!");
-	}
+		let diagnostics = await LintDocument(workspaceIndex, uri, resolver, symbolCache[uri], checkerOptions, GetDocumentToken(uri, run.token));
 
-	if(openProperty != null) {
-		// ERROR! expected to close property before!
-		console.error("ERROR - line " + statement.startLine + " at " + statement.startCharacter + ": 'end property' expected!");
-	}
+		if(diagnostics == null)
+			return;
 
-	let range: ls.Range = ls.Range.create(openClassStart, statement.GetPostitionByCharacter(regexResult[0].length))
-	let symbol: VBSClassSymbol = new VBSClassSymbol();
-	symbol.name = openClassName;
-	symbol.nameLocation = ls.Location.create(uri, 
-		ls.Range.create(openClassStart, 
-			ls.Position.create(openClassStart.line, openClassStart.character + openClassName.length)
-		)
-	);
-	symbol.symbolRange = range;
-	//let symbol: ls.SymbolInformation = ls.SymbolInformation.create(openClassName, ls.SymbolKind.Class, range, uri);
-
-	openClassName = null;
-	openClassStart = ls.Position.create(-1, -1);
-
-	return symbol;
+		diagnosticCache[uri] = diagnostics;
+		connection.sendDiagnostics({ uri: uri, diagnostics: diagnostics });
+	} catch(error) {
+		console.error("Could not check '" + uri + "': " + (error instanceof Error ? error.stack : error));
+	} finally {
+		// a newer run or closing the document may have removed it already
+		if(diagnosticRuns.get(uri) == run)
+			diagnosticRuns.delete(uri);
+	}
 }
 
+connection.onDocumentSymbol((docParams: ls.DocumentSymbolParams): ls.SymbolInformation[] | ls.DocumentSymbol[] => {
+	return GetSymbolsOfDocument(docParams.textDocument.uri);
+});
+
 // Listen on the connection
 connection.listen();
\ No newline at end of file